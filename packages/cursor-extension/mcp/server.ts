@@ -23,6 +23,7 @@ import {
 import { z } from 'zod';
 import * as fs from 'fs';
 import * as os from 'os';
+import * as path from 'path';
 
 // Debug logging to file (can't use console.log - MCP uses stdio)
 const LOG_FILE = `${os.tmpdir()}/discord-bridge-mcp-debug.log`;
@@ -50,6 +51,22 @@ debugLog('=== End Startup Info ===');
 const DEFAULT_PORT = 19876;
 const PORT_RANGE_SIZE = 10; // Ports 19876-19885
 
+// Session tokens written by the extension's HTTP server, one per port
+// (must match src/ui/sessionToken.ts)
+const TOKEN_DIR = path.join(os.homedir(), '.cursor', 'discord-bridge', 'tokens');
+
+/**
+ * Read the session token for the extension listening on a port.
+ * Read on every call so a restarted extension's new token is picked up.
+ */
+function readSessionToken(port: number): string | undefined {
+  try {
+    return fs.readFileSync(path.join(TOKEN_DIR, `${port}.token`), 'utf-8').trim();
+  } catch {
+    return undefined;
+  }
+}
+
 // Input schemas
 const PostToThreadSchema = z.object({
   message: z.string().describe('The message to post to the thread'),
@@ -57,6 +74,18 @@ const PostToThreadSchema = z.object({
   as_embed: z.boolean().optional().default(false).describe('Format the message as a Discord embed'),
 });
 
+const EditMessageSchema = z.object({
+  message_id: z.string().describe('ID of a message returned by post_to_thread'),
+  message: z.string().describe('The new full content of the message'),
+  thread_id: z.string().describe('The thread ID the message was posted in (from get_my_thread_id)'),
+});
+
+const AppendToMessageSchema = z.object({
+  message_id: z.string().describe('ID of a message returned by post_to_thread'),
+  text: z.string().describe('Text to add to the end of the message (include a leading newline to start a new line)'),
+  thread_id: z.string().describe('The thread ID the message was posted in (from get_my_thread_id)'),
+});
+
 const SendFileToThreadSchema = z.object({
   file_path: z.string().describe('Absolute path to the file to send'),
   file_name: z.string().optional().describe('Optional override for the filename displayed in Discord'),
@@ -64,6 +93,16 @@ const SendFileToThreadSchema = z.object({
   thread_id: z.string().optional().describe('Override the thread ID (uses current thread if not provided)'),
 });
 
+const SendDiffSchema = z.object({
+  diff: z.string().optional().describe('Unified diff text (git diff output)'),
+  files: z.array(z.string()).optional().describe('Workspace files to diff against git HEAD'),
+  title: z.string().optional().describe('Heading for the diff summary'),
+  description: z.string().optional().describe('Short explanation of the changes'),
+  thread_id: z.string().optional().describe('Override the thread ID (uses current thread if not provided)'),
+}).refine(data => !!data.diff || (data.files?.length ?? 0) > 0, {
+  message: 'Provide either diff or files',
+});
+
 const StartTypingSchema = z.object({
   thread_id: z.string().optional().describe('Override the thread ID (uses current thread if not provided)'),
 });
@@ -83,7 +122,8 @@ const RenameThreadSchema = z.object({
 });
 
 const CheckMessagesSchema = z.object({
-  thread_id: z.string().optional().describe('Check a specific thread (uses current thread if not provided)'),
+  thread_id: z.string().describe('The thread ID to check (from get_my_thread_id)'),
+  peek: z.boolean().optional().default(false).describe('Return unread messages without marking them as read'),
 });
 
 const ForwardUserPromptSchema = z.object({
@@ -99,9 +139,57 @@ const AskQuestionOptionSchema = z.object({
 const AskQuestionSchema = z.object({
   thread_id: z.string().describe('The thread ID to post the question in'),
   question: z.string().describe('The question text to display'),
-  options: z.array(AskQuestionOptionSchema).min(1).describe('Available options for the user to select'),
+  kind: z.enum(['buttons', 'select', 'text', 'confirm']).optional().default('buttons')
+    .describe('buttons, select (long option lists), text (free-text answer) or confirm (approve/reject)'),
+  options: z.array(AskQuestionOptionSchema).optional().default([]).describe('Available options for the user to select'),
   allow_multiple: z.boolean().optional().default(false).describe('Allow selecting multiple options'),
   timeout_ms: z.number().optional().describe('Timeout in milliseconds (default: 5 minutes)'),
+  default_option_id: z.string().optional().describe('Option selected automatically if nobody answers before the timeout'),
+  reminder_interval_ms: z.number().min(60000).optional().describe('Re-ping the notified users this often while unanswered (minimum 60000)'),
+  escalate: z.boolean().optional().default(false).describe('DM the configured escalation users if still unanswered halfway to the timeout'),
+  allowed_responder_ids: z.array(z.string()).optional().describe('Discord user IDs allowed to answer'),
+})
+  .refine(data => data.kind === 'text' || data.kind === 'confirm' || data.options.length > 0, {
+    message: 'options are required for buttons and select questions',
+    path: ['options'],
+  })
+  .refine(data => data.kind !== 'select' || data.options.length <= 25, {
+    message: 'select questions support up to 25 options',
+    path: ['options'],
+  })
+  .refine(data => !data.default_option_id || data.options.some(o => o.id === data.default_option_id), {
+    message: 'default_option_id must be the id of one of the options',
+    path: ['default_option_id'],
+  });
+
+const FormQuestionSchema = z.object({
+  id: z.string().describe('Key for this answer in the result'),
+  question: z.string().describe('Question label'),
+  kind: z.enum(['buttons', 'select', 'text']).optional().default('buttons'),
+  options: z.array(AskQuestionOptionSchema).optional().default([]),
+  allow_multiple: z.boolean().optional().default(false),
+  required: z.boolean().optional().default(true),
+})
+  .refine(data => data.kind === 'text' || data.options.length > 0, {
+    message: 'options are required for buttons and select questions',
+    path: ['options'],
+  });
+
+const AskQuestionsSchema = z.object({
+  thread_id: z.string().describe('The thread ID to post the form in'),
+  title: z.string().optional().describe('Form heading'),
+  questions: z.array(FormQuestionSchema).min(1).max(5).describe('The questions (up to 5)'),
+  timeout_ms: z.number().optional().describe('Timeout in milliseconds (default: 5 minutes)'),
+  allowed_responder_ids: z.array(z.string()).optional().describe('Discord user IDs allowed to answer'),
+});
+
+const RequestApprovalSchema = z.object({
+  thread_id: z.string().describe('The thread ID to post the approval request in'),
+  action: z.string().describe('One-line summary of the action'),
+  details: z.string().optional().describe('Why it is needed and what it affects'),
+  preview: z.string().optional().describe('Command or diff to show'),
+  preview_language: z.string().optional().describe('Code block language for the preview'),
+  timeout_ms: z.number().optional().describe('Timeout in milliseconds (default: 15 minutes)'),
 });
 
 // Resource content for Discord workflow instructions
@@ -149,10 +237,14 @@ Options I see:
 
 ## Available Tools
 - \`post_to_thread\`: Send a message to Discord (primary communication method)
+- \`edit_message\` / \`append_to_message\`: Update a message you posted (e.g. a live progress message)
 - \`send_file_to_thread\`: Send screenshots, images, or files to Discord
+- \`send_diff\`: Show code changes (a unified diff, or files diffed against git HEAD) - use instead of pasting diffs into post_to_thread
 - \`start_typing\`: Show typing indicator while processing (call at start of work)
 - \`stop_typing\`: Stop the typing indicator (auto-stops when posting)
 - \`check_discord_messages\`: Check for new messages from the developer
+- \`ask_question\` / \`ask_questions\`: Ask one question, or several at once as a single form (prefer one form over several questions in a row)
+- \`request_approval\`: Get sign-off from an approver before a destructive action (migrations, force pushes, deleting files)
 - \`create_conversation_thread\`: Create a new thread for a different topic
 - \`rename_thread\`: Rename the current thread to reflect the conversation topic
 
@@ -291,9 +383,17 @@ class DiscordBridgeMCP {
     const baseUrl = `http://127.0.0.1:${port}`;
 
     try {
+      const token = readSessionToken(port);
+      if (!token) {
+        debugLog(`No session token found for port ${port}`);
+      }
+
       const options: RequestInit = {
         method,
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
       };
       
       if (method === 'POST') {
@@ -302,12 +402,31 @@ class DiscordBridgeMCP {
 
       const response = await fetch(`${baseUrl}${endpoint}`, options);
 
+      if (response.status === 401) {
+        throw new Error('Extension rejected the session token. Restart the MCP server or reload the Cursor window.');
+      }
+
       if (!response.ok) {
         const errorText = await response.text();
+
+        // Policy rejections (e.g. file sharing) come back as structured errors
+        let policyViolation: { rule: string; reason: string } | undefined;
+        try {
+          policyViolation = JSON.parse(errorText).policyViolation;
+        } catch {
+          // Not JSON
+        }
+        if (policyViolation) {
+          throw new McpError(ErrorCode.InvalidRequest, `Rejected by policy: ${policyViolation.reason}`, policyViolation);
+        }
+
         throw new Error(`Extension API error: ${response.status} - ${errorText}`);
       }
       return await response.json();
     } catch (error: any) {
+      if (error instanceof McpError) {
+        throw error;
+      }
       if (error.code === 'ECONNREFUSED') {
         // Port might have changed (e.g., extension restarted), clear cache and try again
         this.discoveredPort = null;
@@ -320,6 +439,11 @@ class DiscordBridgeMCP {
     }
   }
 
+  /** Who answered an ask_question / ask_questions call, for the tool result */
+  private formatResponder(result: any): string {
+    return result.responderUsername ? `${result.responderUsername} (Discord user ${result.responderId})` : 'User';
+  }
+
   private setupHandlers(): void {
     // Resource handlers - provide context about Discord workflow
     this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
@@ -413,10 +537,47 @@ class DiscordBridgeMCP {
             required: ['message'],
           },
         },
+        {
+          name: 'edit_message',
+          description:
+            'Replace the content of a message you previously posted with post_to_thread. Use this to keep a single "progress" message up to date during long tasks instead of posting many messages. Long content is automatically re-split.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              message_id: { type: 'string', description: 'ID of a message returned by post_to_thread' },
+              message: { type: 'string', description: 'The new full content of the message' },
+              thread_id: {
+                type: 'string',
+                description: 'The thread ID the message was posted in (from get_my_thread_id)',
+              },
+            },
+            required: ['thread_id', 'message_id', 'message'],
+          },
+        },
+        {
+          name: 'append_to_message',
+          description:
+            'Append text to a message you previously posted with post_to_thread, like a streaming response. When the message grows past Discord\'s 2000 character limit it is automatically continued in a new message.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              message_id: { type: 'string', description: 'ID of a message returned by post_to_thread' },
+              text: {
+                type: 'string',
+                description: 'Text to add to the end of the message (include a leading newline to start a new line)',
+              },
+              thread_id: {
+                type: 'string',
+                description: 'The thread ID the message was posted in (from get_my_thread_id)',
+              },
+            },
+            required: ['thread_id', 'message_id', 'text'],
+          },
+        },
         {
           name: 'send_file_to_thread',
           description:
-            'Send a file or image to the current Discord thread. Use this to share screenshots, code files, or other attachments with the developer.',
+            'Send a file or image to the current Discord thread. Use this to share screenshots, code files, or other attachments with the developer. Files must be inside the workspace or temp directory, under the size limit, and must not be secrets (.env, keys, credentials) - otherwise the request is rejected with the reason.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -437,6 +598,37 @@ class DiscordBridgeMCP {
             required: ['file_path'],
           },
         },
+        {
+          name: 'send_diff',
+          description:
+            'Show code changes in the Discord thread: a summary of files changed with +/- counts, then the hunks as diff code blocks (split between hunks, never mid-line). Large diffs are attached as a .patch file instead. Pass either a unified diff, or a list of workspace files to diff against git HEAD (untracked files show as new). Use this instead of pasting diffs into post_to_thread.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              diff: {
+                type: 'string',
+                description: 'Unified diff text, e.g. the output of git diff',
+              },
+              files: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Workspace file paths (absolute or relative to the workspace root) to diff against git HEAD - used when no diff is given',
+              },
+              title: {
+                type: 'string',
+                description: 'Heading for the diff summary (default: "Changes")',
+              },
+              description: {
+                type: 'string',
+                description: 'Short explanation of the changes, shown above the file list',
+              },
+              thread_id: {
+                type: 'string',
+                description: 'Override the thread ID (uses current thread if not provided)',
+              },
+            },
+          },
+        },
         {
           name: 'start_typing',
           description:
@@ -506,15 +698,21 @@ class DiscordBridgeMCP {
         {
           name: 'check_discord_messages',
           description:
-            'Check for new messages from the developer in the current Discord thread. Use this to see if they sent any instructions while you were working.',
+            'Check for new messages from the developer in your Discord thread. Use this during long tasks to see if they sent any instructions while you were working. Returns messages not yet returned by a previous call, including attachments. Messages that were already delivered into your chat are left out.',
           inputSchema: {
             type: 'object',
             properties: {
               thread_id: {
                 type: 'string',
-                description: 'Check a specific thread (uses current thread if not provided)',
+                description: 'The thread ID to check (from get_my_thread_id)',
+              },
+              peek: {
+                type: 'boolean',
+                description: 'Return unread messages without marking them as read',
+                default: false,
               },
             },
+            required: ['thread_id'],
           },
         },
         {
@@ -548,7 +746,7 @@ class DiscordBridgeMCP {
         {
           name: 'ask_question',
           description:
-            'Ask a question to the Discord user and wait for their response. Use this ONLY when the most recent user message contains "[Discord Thread:" - if it does NOT contain this prefix, use the native ask_question tool instead. The question will be posted as interactive buttons in Discord, and the user can click a button or reply with text. The tool will block until the user responds or timeout (default 5 minutes).',
+            'Ask a question to the Discord user and wait for their response. Use this ONLY when the most recent user message contains "[Discord Thread:" - if it does NOT contain this prefix, use the native ask_question tool instead. By default the question is posted as interactive buttons in Discord; use kind "select" for long option lists (up to 25), "text" to collect a free-text answer, or "confirm" for an approve/reject decision (no options needed for text and confirm). The user can also answer in their own words by replying to the question message. Only the users notified in the thread and whoever prompted you from Discord can answer, unless allowed_responder_ids says otherwise. The tool will block until the user responds or timeout (default 5 minutes). Set default_option_id to get that option back instead of a timeout error, reminder_interval_ms to re-ping the user while waiting, and escalate to DM the configured escalation contacts halfway to the deadline.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -560,6 +758,11 @@ class DiscordBridgeMCP {
                 type: 'string',
                 description: 'The question text to display',
               },
+              kind: {
+                type: 'string',
+                enum: ['buttons', 'select', 'text', 'confirm'],
+                description: 'How the user answers: buttons (default), select (select menu for long option lists, up to 25), text (opens a text box), confirm (Approve/Reject with an optional rejection reason)',
+              },
               options: {
                 type: 'array',
                 items: {
@@ -570,7 +773,7 @@ class DiscordBridgeMCP {
                   },
                   required: ['id', 'label'],
                 },
-                description: 'Available options for the user to select',
+                description: 'Available options for the user to select (required for buttons and select)',
               },
               allow_multiple: {
                 type: 'boolean',
@@ -580,8 +783,120 @@ class DiscordBridgeMCP {
                 type: 'number',
                 description: 'Timeout in milliseconds (default: 5 minutes)',
               },
+              default_option_id: {
+                type: 'string',
+                description: 'ID of the option to select automatically if nobody answers before the timeout (buttons and select only)',
+              },
+              reminder_interval_ms: {
+                type: 'number',
+                description: 'Re-ping the notified users in the thread this often while the question is unanswered (minimum 60000)',
+              },
+              escalate: {
+                type: 'boolean',
+                description: 'DM the escalation users configured in the extension settings if the question is still unanswered halfway to the timeout (default: false)',
+              },
+              allowed_responder_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Discord user IDs allowed to answer (default: the users notified in the thread and whoever prompted you from Discord)',
+              },
+            },
+            required: ['thread_id', 'question'],
+          },
+        },
+        {
+          name: 'ask_questions',
+          description:
+            'Ask several questions at once as a single Discord form and wait for the user to submit it. Use this instead of calling ask_question several times in a row (same "[Discord Thread:" rule as ask_question). Each question has its own buttons, select menu or text input; the user answers them in any order and clicks Submit. Returns the answers by question ID. If the form times out (default 5 minutes), the answers given so far are returned.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              thread_id: {
+                type: 'string',
+                description: 'The thread ID to post the form in',
+              },
+              title: {
+                type: 'string',
+                description: 'Form heading (default: "Questions")',
+              },
+              questions: {
+                type: 'array',
+                maxItems: 5,
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string', description: 'Key for this answer in the result' },
+                    question: { type: 'string', description: 'Question label' },
+                    kind: {
+                      type: 'string',
+                      enum: ['buttons', 'select', 'text'],
+                      description: 'buttons (default, up to 10 options), select (up to 25 options) or text (free-text answer)',
+                    },
+                    options: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          id: { type: 'string', description: 'Unique identifier for this option' },
+                          label: { type: 'string', description: 'Display label for this option' },
+                        },
+                        required: ['id', 'label'],
+                      },
+                      description: 'Available options (required for buttons and select)',
+                    },
+                    allow_multiple: { type: 'boolean', description: 'Allow selecting multiple options (default: false)' },
+                    required: { type: 'boolean', description: 'Must be answered before submitting (default: true)' },
+                  },
+                  required: ['id', 'question'],
+                },
+                description: 'The questions (up to 5)',
+              },
+              timeout_ms: {
+                type: 'number',
+                description: 'Timeout in milliseconds (default: 5 minutes)',
+              },
+              allowed_responder_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Discord user IDs allowed to answer (default: the users notified in the thread and whoever prompted you from Discord)',
+              },
+            },
+            required: ['thread_id', 'questions'],
+          },
+        },
+        {
+          name: 'request_approval',
+          description:
+            'Ask an approver for explicit sign-off before a destructive or irreversible action: running migrations, force-pushing, deleting files, dropping data, deploying. Posts the action with Approve/Deny buttons in Discord; only users configured as approvers can decide, and every decision is recorded in the approval log. Blocks until a decision or timeout (default 15 minutes). Only go ahead if the result says approved - on denial or timeout, do NOT perform the action. Works whether the user is in Cursor or Discord.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              thread_id: {
+                type: 'string',
+                description: 'The thread ID to post the approval request in',
+              },
+              action: {
+                type: 'string',
+                description: 'One-line summary of the action, e.g. "Run migration 0042_drop_legacy_users on production"',
+              },
+              details: {
+                type: 'string',
+                description: 'Why the action is needed and what it affects',
+              },
+              preview: {
+                type: 'string',
+                description: 'The exact command or diff that will run (shown in a code block)',
+              },
+              preview_language: {
+                type: 'string',
+                description: 'Code block language for the preview, e.g. "bash", "sql" or "diff"',
+              },
+              timeout_ms: {
+                type: 'number',
+                description: 'Timeout in milliseconds (default: 15 minutes)',
+              },
             },
-            required: ['thread_id', 'question', 'options'],
+            required: ['thread_id', 'action'],
           },
         },
       ],
@@ -609,8 +924,53 @@ class DiscordBridgeMCP {
               isError: true,
             };
           }
+          const messageIdText = result.messageIds?.length
+            ? ` Message ID: ${result.messageIds[0]} (use it with edit_message/append_to_message).`
+            : '';
+          return {
+            content: [{ type: 'text', text: `Message posted to thread ${result.threadId}.${messageIdText}` }],
+          };
+        }
+
+        case 'edit_message': {
+          const parsed = EditMessageSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new McpError(ErrorCode.InvalidParams, `Invalid parameters: ${parsed.error.message}`);
+          }
+          const result = await this.callExtension('/api/edit-message', {
+            threadId: parsed.data.thread_id,
+            messageId: parsed.data.message_id,
+            message: parsed.data.message,
+          });
+          if (!result.success) {
+            return {
+              content: [{ type: 'text', text: `Error editing message: ${result.error}` }],
+              isError: true,
+            };
+          }
           return {
-            content: [{ type: 'text', text: `Message posted to thread ${result.threadId}.` }],
+            content: [{ type: 'text', text: `Message ${parsed.data.message_id} updated (${result.messageIds?.length ?? 1} part(s)).` }],
+          };
+        }
+
+        case 'append_to_message': {
+          const parsed = AppendToMessageSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new McpError(ErrorCode.InvalidParams, `Invalid parameters: ${parsed.error.message}`);
+          }
+          const result = await this.callExtension('/api/append-to-message', {
+            threadId: parsed.data.thread_id,
+            messageId: parsed.data.message_id,
+            text: parsed.data.text,
+          });
+          if (!result.success) {
+            return {
+              content: [{ type: 'text', text: `Error appending to message: ${result.error}` }],
+              isError: true,
+            };
+          }
+          return {
+            content: [{ type: 'text', text: `Appended to message ${parsed.data.message_id} (${result.messageIds?.length ?? 1} part(s)).` }],
           };
         }
 
@@ -638,6 +998,30 @@ class DiscordBridgeMCP {
           };
         }
 
+        case 'send_diff': {
+          const parsed = SendDiffSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new McpError(ErrorCode.InvalidParams, `Invalid parameters: ${parsed.error.message}`);
+          }
+          const result = await this.callExtension('/api/send-diff', {
+            threadId: parsed.data.thread_id,
+            diff: parsed.data.diff,
+            files: parsed.data.files,
+            title: parsed.data.title,
+            description: parsed.data.description,
+          });
+          if (!result.success) {
+            return {
+              content: [{ type: 'text', text: `Error sending diff: ${result.error}` }],
+              isError: true,
+            };
+          }
+          const how = result.attached ? ' (attached as changes.patch - too long to post inline)' : '';
+          return {
+            content: [{ type: 'text', text: `Diff sent: ${result.filesChanged} file(s) changed, +${result.additions} −${result.deletions}${how}.` }],
+          };
+        }
+
         case 'start_typing': {
           const parsed = StartTypingSchema.safeParse(args);
           if (!parsed.success) {
@@ -727,6 +1111,7 @@ class DiscordBridgeMCP {
           }
           const result = await this.callExtension('/api/check-messages', {
             threadId: parsed.data.thread_id,
+            peek: parsed.data.peek,
           });
           if (!result.success) {
             return {
@@ -740,7 +1125,18 @@ class DiscordBridgeMCP {
             };
           }
           const formattedMessages = result.messages
-            .map((msg: any) => `[${new Date(msg.timestamp).toISOString()}] ${msg.author}: ${msg.content}`)
+            .map((msg: any) => {
+              const lines = [`[${new Date(msg.timestamp).toISOString()}] ${msg.author}: ${msg.content}`];
+              for (const attachment of msg.attachments || []) {
+                lines.push(attachment.relativePath
+                  ? `  📎 ${attachment.relativePath}`
+                  : `  📎 ${attachment.name} (not downloaded: ${attachment.error || 'unknown error'}) ${attachment.url}`);
+              }
+              if (!msg.deliveredToChat) {
+                lines.push('  ⚠️ This message was NOT delivered to your chat - treat it as a new instruction.');
+              }
+              return lines.join('\n');
+            })
             .join('\n\n');
           return {
             content: [{ type: 'text', text: `New messages from developer:\n\n${formattedMessages}` }],
@@ -790,11 +1186,23 @@ class DiscordBridgeMCP {
           const result = await this.callExtension('/api/ask-question', {
             threadId: parsed.data.thread_id,
             question: parsed.data.question,
+            kind: parsed.data.kind,
             options: parsed.data.options,
             allowMultiple: parsed.data.allow_multiple,
             timeoutMs: parsed.data.timeout_ms,
+            defaultOptionId: parsed.data.default_option_id,
+            reminderIntervalMs: parsed.data.reminder_interval_ms,
+            escalate: parsed.data.escalate,
+            allowedResponderIds: parsed.data.allowed_responder_ids,
           });
           
+          if (result.cancelled) {
+            return {
+              content: [{ type: 'text', text: 'The user stopped this agent from Discord (/stop) before answering. Stop the current task and wait for new instructions.' }],
+              isError: true,
+            };
+          }
+
           if (!result.success) {
             return {
               content: [{ type: 'text', text: `Question failed or timed out: ${result.error}` }],
@@ -803,6 +1211,7 @@ class DiscordBridgeMCP {
           }
           
           // Format the response based on type
+          const responder = this.formatResponder(result);
           if (result.responseType === 'option') {
             const selectedLabels = result.selectedOptionIds
               ?.map((id: string) => {
@@ -810,12 +1219,22 @@ class DiscordBridgeMCP {
                 return opt ? opt.label : id;
               })
               .join(', ');
+            const text = result.autoSelected
+              ? `Nobody answered in time - the default option was selected: ${selectedLabels}`
+              : `${responder} selected: ${selectedLabels}`;
             return {
-              content: [{ type: 'text', text: `User selected: ${selectedLabels}` }],
+              content: [{ type: 'text', text }],
             };
           } else if (result.responseType === 'text') {
             return {
-              content: [{ type: 'text', text: `User responded with text: ${result.textResponse}` }],
+              content: [{ type: 'text', text: `${responder} responded with text: ${result.textResponse}` }],
+            };
+          } else if (result.responseType === 'confirm') {
+            const text = result.confirmed
+              ? `${responder} approved.`
+              : `${responder} rejected.${result.textResponse ? ` Reason: ${result.textResponse}` : ''}`;
+            return {
+              content: [{ type: 'text', text }],
             };
           }
           
@@ -824,6 +1243,113 @@ class DiscordBridgeMCP {
           };
         }
 
+        case 'ask_questions': {
+          const parsed = AskQuestionsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new McpError(ErrorCode.InvalidParams, `Invalid parameters: ${parsed.error.message}`);
+          }
+
+          // This call will block until the form is submitted or times out
+          const result = await this.callExtension('/api/ask-questions', {
+            threadId: parsed.data.thread_id,
+            title: parsed.data.title,
+            questions: parsed.data.questions.map(q => ({
+              id: q.id,
+              question: q.question,
+              kind: q.kind,
+              options: q.options,
+              allowMultiple: q.allow_multiple,
+              required: q.required,
+            })),
+            timeoutMs: parsed.data.timeout_ms,
+            allowedResponderIds: parsed.data.allowed_responder_ids,
+          });
+
+          if (result.cancelled) {
+            return {
+              content: [{ type: 'text', text: 'The user stopped this agent from Discord (/stop) before submitting the form. Stop the current task and wait for new instructions.' }],
+              isError: true,
+            };
+          }
+
+          if (!result.success) {
+            return {
+              content: [{ type: 'text', text: `Form failed or timed out: ${result.error}` }],
+              isError: true,
+            };
+          }
+
+          // Answers by question ID: option IDs for buttons/select, text for text questions
+          const answers: Record<string, string | string[] | null> = {};
+          const lines = parsed.data.questions.map(q => {
+            const answer = result.answers?.[q.id];
+            if (answer?.textResponse) {
+              answers[q.id] = answer.textResponse;
+              return `- ${q.question}: ${answer.textResponse}`;
+            }
+            if (answer?.selectedOptionIds?.length) {
+              answers[q.id] = answer.selectedOptionIds;
+              const labels = answer.selectedOptionIds
+                .map((id: string) => q.options.find(o => o.id === id)?.label || id)
+                .join(', ');
+              return `- ${q.question}: ${labels}`;
+            }
+            answers[q.id] = null;
+            return `- ${q.question}: (no answer)`;
+          });
+
+          const heading = result.submitted === false
+            ? 'The form timed out before the user submitted it. Answers so far:'
+            : `${this.formatResponder(result)} submitted the form:`;
+          return {
+            content: [{ type: 'text', text: `${heading}\n${lines.join('\n')}\n\nAnswers by question ID:\n${JSON.stringify(answers, null, 2)}` }],
+          };
+        }
+
+        case 'request_approval': {
+          const parsed = RequestApprovalSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new McpError(ErrorCode.InvalidParams, `Invalid parameters: ${parsed.error.message}`);
+          }
+
+          // This call will block until an approver decides or the request expires
+          const result = await this.callExtension('/api/request-approval', {
+            threadId: parsed.data.thread_id,
+            action: parsed.data.action,
+            details: parsed.data.details,
+            preview: parsed.data.preview,
+            previewLanguage: parsed.data.preview_language,
+            timeoutMs: parsed.data.timeout_ms,
+          });
+
+          if (!result.success) {
+            return {
+              content: [{ type: 'text', text: `Approval request failed: ${result.error}. Do NOT perform the action.` }],
+              isError: true,
+            };
+          }
+
+          const approver = result.approverUsername ? `${result.approverUsername} (Discord user ${result.approverId})` : 'an approver';
+          let text: string;
+          switch (result.decision) {
+            case 'approved':
+              text = `Approved by ${approver}. You may perform the action.`;
+              break;
+            case 'denied':
+              text = `Denied by ${approver}${result.reason ? `. Reason: ${result.reason}` : ''}. Do NOT perform the action.`;
+              break;
+            case 'cancelled':
+              text = 'The user stopped this agent from Discord (/stop) before a decision. Do NOT perform the action - stop the current task and wait for new instructions.';
+              break;
+            default:
+              text = 'Nobody approved the action in time. Do NOT perform it - tell the user it is waiting for approval.';
+          }
+          return {
+            content: [{ type: 'text', text }],
+            isError: result.decision === 'cancelled',
+          };
+        }
+
         default:
           throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
       }
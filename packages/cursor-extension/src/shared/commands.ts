@@ -11,12 +11,19 @@ export const Commands = {
   STOP_WATCHER: 'discordBridge.stopWatcher',
   SHOW_STATUS: 'discordBridge.showStatus',
   RESYNC_THREAD_NAME: 'discordBridge.resyncThreadName',
+  OPEN_APPROVAL_LOG: 'discordBridge.openApprovalLog',
 
   // ============ Internal: UI → Workspace ============
   // These are called by the UI part and handled by the Workspace part
   
   /** Post a message to a Discord thread */
   POST_TO_THREAD: 'discordBridge.internal.postToThread',
+
+  /** Replace the content of a message previously posted to a thread */
+  EDIT_MESSAGE: 'discordBridge.internal.editMessage',
+
+  /** Append text to a message previously posted to a thread */
+  APPEND_TO_MESSAGE: 'discordBridge.internal.appendToMessage',
   
   /** Send a file/image to a Discord thread */
   SEND_FILE_TO_THREAD: 'discordBridge.internal.sendFileToThread',
@@ -72,6 +79,18 @@ export const Commands = {
   /** Ask a question in Discord and wait for user response */
   ASK_QUESTION: 'discordBridge.internal.askQuestion',
 
+  /** Ask several questions as one Discord form and wait for it to be submitted */
+  ASK_QUESTIONS: 'discordBridge.internal.askQuestions',
+
+  /** Ask an approver to sign off on an agent action and wait for the decision */
+  REQUEST_APPROVAL: 'discordBridge.internal.requestApproval',
+
+  /** Post a diff to a thread as a summary embed plus ```diff blocks or a .patch file */
+  SEND_DIFF: 'discordBridge.internal.sendDiff',
+
+  /** Read unread messages from a thread's inbox */
+  CHECK_MESSAGES: 'discordBridge.internal.checkMessages',
+
   // ============ Internal: Workspace → UI ============
   // These are called by the Workspace part and handled by the UI part
   
@@ -83,6 +102,9 @@ export const Commands = {
   
   /** Send a message to the currently focused chat (no chat ID needed) */
   SEND_TO_FOCUSED_CHAT: 'discordBridge.internal.sendToFocusedChat',
+
+  /** Stop the agent in a Cursor chat (Escape key in the focused chat) */
+  CANCEL_CHAT_GENERATION: 'discordBridge.internal.cancelChatGeneration',
   
   /** Get configuration (token, guild, channel) */
   GET_CONFIG: 'discordBridge.internal.getConfig',
@@ -108,6 +130,39 @@ export interface PostToThreadParams {
 export interface PostToThreadResult {
   success: boolean;
   threadId?: string;
+  /** IDs of the posted Discord messages, one per chunk (the first one identifies the message for edits) */
+  messageIds?: string[];
+  error?: string;
+}
+
+export interface EditMessageParams {
+  threadId?: string;
+  /** ID of a message returned by post_to_thread */
+  messageId: string;
+  /** The new full content */
+  message: string;
+}
+
+export interface EditMessageResult {
+  success: boolean;
+  threadId?: string;
+  /** IDs of the Discord messages now holding the content (chunks may be added or removed) */
+  messageIds?: string[];
+  error?: string;
+}
+
+export interface AppendToMessageParams {
+  threadId?: string;
+  /** ID of a message returned by post_to_thread */
+  messageId: string;
+  /** Text to add to the end of the message */
+  text: string;
+}
+
+export interface AppendToMessageResult {
+  success: boolean;
+  threadId?: string;
+  messageIds?: string[];
   error?: string;
 }
 
@@ -128,6 +183,29 @@ export interface SendFileToThreadResult {
   error?: string;
 }
 
+export interface SendDiffParams {
+  threadId?: string;
+  /** Unified diff text (git diff or diff -u output) */
+  diff?: string;
+  /** Workspace files to diff against git HEAD (used when no diff is given) */
+  files?: string[];
+  /** Embed title (default: "Changes") */
+  title?: string;
+  /** Short explanation shown above the file list */
+  description?: string;
+}
+
+export interface SendDiffResult {
+  success: boolean;
+  messageIds?: string[];
+  filesChanged?: number;
+  additions?: number;
+  deletions?: number;
+  /** The diff was too long to post inline and was attached as a .patch file */
+  attached?: boolean;
+  error?: string;
+}
+
 export interface StartTypingParams {
   threadId?: string;
 }
@@ -150,6 +228,8 @@ export interface CreateThreadParams {
   workspaceName: string;
   /** Optional human-readable name/description for the thread */
   name?: string;
+  /** The name was chosen by the user - keep it instead of syncing Cursor's chat name */
+  customName?: boolean;
 }
 
 export interface CreateThreadResult {
@@ -172,6 +252,32 @@ export interface RenameThreadResult {
   error?: string;
 }
 
+export interface CheckMessagesParams {
+  threadId?: string;
+  /** Return unread messages without advancing the read cursor */
+  peek?: boolean;
+}
+
+/** A Discord message buffered in a thread's inbox */
+export interface InboxMessage {
+  messageId: string;
+  threadId: string;
+  author: string;
+  authorId: string;
+  content: string;
+  attachments: DownloadedAttachment[];
+  /** When the message was sent (ms since epoch) */
+  timestamp: number;
+  /** Whether the message was successfully sent to the Cursor chat */
+  deliveredToChat: boolean;
+}
+
+export interface CheckMessagesResult {
+  success: boolean;
+  messages?: InboxMessage[];
+  error?: string;
+}
+
 export interface ArchiveThreadParams {
   threadId?: string;
   /** If provided, look up threadId from this chatId */
@@ -206,6 +312,15 @@ export interface SendToChatResult {
   error?: string;
 }
 
+export interface CancelChatGenerationParams {
+  chatId: string;
+}
+
+export interface CancelChatGenerationResult {
+  success: boolean;
+  error?: string;
+}
+
 export interface CreateNewAgentChatResult {
   success: boolean;
   /** The ID of the newly created chat */
@@ -213,7 +328,15 @@ export interface CreateNewAgentChatResult {
   error?: string;
 }
 
-import { ThreadCreationNotify, MessagePingMode } from './types';
+export interface SendToFocusedChatParams {
+  message: string;
+  /** Thread the chat is mapped to - adds the respond-via-Discord directive */
+  threadId?: string;
+  /** Workspace-relative file paths to attach as context */
+  files?: string[];
+}
+
+import { ThreadCreationNotify, MessagePingMode, LongResponseMode, TranscriptMirrorMode, AccessPolicy, DownloadedAttachment, RedactionSettings } from './types';
 
 export interface GetConfigResult {
   token?: string;
@@ -223,6 +346,8 @@ export interface GetConfigResult {
   channelName?: string;
   /** User IDs to auto-invite when creating new threads */
   threadInviteUserIds?: string[];
+  /** User IDs to DM about escalated questions that are still unanswered */
+  questionEscalationUserIds?: string[];
   /** How to notify users when threads are created */
   threadCreationNotify?: ThreadCreationNotify;
   /** When to ping users on AI message responses */
@@ -231,6 +356,20 @@ export interface GetConfigResult {
   implicitArchiveCount?: number;
   /** Hours since last activity before allowing Discord auto-archive */
   implicitArchiveHours?: number;
+  /** How to post responses longer than longResponseThreshold */
+  longResponseMode?: LongResponseMode;
+  /** Response length in characters above which longResponseMode applies */
+  longResponseThreshold?: number;
+  /** Number of lines to show as the summary when attaching a response */
+  longResponseSummaryLines?: number;
+  /** Which agent responses to post from the Cursor transcript */
+  transcriptMirrorMode?: TranscriptMirrorMode;
+  /** Who may drive agents from Discord */
+  accessPolicy?: AccessPolicy;
+  /** Secret masking for outbound text */
+  redaction?: RedactionSettings;
+  /** Glob patterns of files that must not be shared (from the file sharing policy) */
+  deniedFilePatterns?: string[];
 }
 
 export interface SaveConfigParams {
@@ -336,26 +475,117 @@ export interface AskQuestionOption {
   label: string;
 }
 
+/**
+ * How a question is answered in Discord:
+ * - buttons: one button per option (default)
+ * - select: a select menu (for long option lists, up to 25)
+ * - text: a Reply button that opens a text input
+ * - confirm: Approve/Reject buttons (Reject asks for an optional reason)
+ */
+export type AskQuestionKind = 'buttons' | 'select' | 'text' | 'confirm';
+
 export interface AskQuestionParams {
   /** The thread to post the question in */
   threadId: string;
   /** The question text to display */
   question: string;
-  /** Available options for the user to select */
+  /** How the question is answered (default: 'buttons') */
+  kind?: AskQuestionKind;
+  /** Available options for the user to select (empty for 'text' and 'confirm') */
   options: AskQuestionOption[];
   /** Allow selecting multiple options (default: false) */
   allowMultiple?: boolean;
   /** Timeout in milliseconds (default: 5 minutes) */
   timeoutMs?: number;
+  /** Option selected automatically if nobody answers before the timeout */
+  defaultOptionId?: string;
+  /** Re-ping the notified users this often while the question is unanswered (minimum 1 minute) */
+  reminderIntervalMs?: number;
+  /** DM the configured escalation users if the question is still unanswered halfway to the deadline */
+  escalate?: boolean;
+  /** Discord user IDs allowed to answer (default: the thread invite users and whoever prompted from Discord) */
+  allowedResponderIds?: string[];
+}
+
+/** One question of an ask_questions form */
+export interface FormQuestion {
+  /** Key for this question's answer in the result */
+  id: string;
+  /** Label shown above the question's input */
+  question: string;
+  /** How the question is answered (default: 'buttons') */
+  kind?: Exclude<AskQuestionKind, 'confirm'>;
+  /** Available options (for 'buttons' and 'select') */
+  options?: AskQuestionOption[];
+  allowMultiple?: boolean;
+  /** Must be answered before the form can be submitted (default: true) */
+  required?: boolean;
+}
+
+export interface AskQuestionsParams {
+  threadId: string;
+  /** Form heading (default: "Questions") */
+  title?: string;
+  questions: FormQuestion[];
+  /** Timeout in milliseconds (default: 5 minutes) */
+  timeoutMs?: number;
+  /** Discord user IDs allowed to answer (default: the thread invite users and whoever prompted from Discord) */
+  allowedResponderIds?: string[];
+}
+
+export interface FormAnswer {
+  selectedOptionIds?: string[];
+  textResponse?: string;
+}
+
+export interface RequestApprovalParams {
+  threadId: string;
+  /** One-line summary of the action, e.g. "Run database migration 0042" */
+  action: string;
+  /** Why the action is needed, what it affects */
+  details?: string;
+  /** Command or diff to show in a code block */
+  preview?: string;
+  /** Language for the preview code block (e.g. "diff", "bash") */
+  previewLanguage?: string;
+  /** Timeout in milliseconds (default: 15 minutes) */
+  timeoutMs?: number;
+}
+
+export type ApprovalDecision = 'approved' | 'denied' | 'expired' | 'cancelled';
+
+export interface RequestApprovalResult {
+  success: boolean;
+  /** True only if an approver clicked Approve */
+  approved?: boolean;
+  decision?: ApprovalDecision;
+  approverId?: string;
+  approverUsername?: string;
+  /** Reason given when denying */
+  reason?: string;
+  error?: string;
 }
 
 export interface AskQuestionResult {
   success: boolean;
   /** Type of response received */
-  responseType?: 'option' | 'text';
+  responseType?: 'option' | 'text' | 'confirm' | 'form';
   /** Selected option IDs (if responseType is 'option') */
   selectedOptionIds?: string[];
-  /** Text response (if responseType is 'text') */
+  /** Text response (if responseType is 'text'), or the reason given for a rejection */
   textResponse?: string;
+  /** Whether the user approved (if responseType is 'confirm') */
+  confirmed?: boolean;
+  /** Nobody answered in time, so defaultOptionId was selected */
+  autoSelected?: boolean;
+  /** Answers by question ID (if responseType is 'form'); unanswered questions are missing */
+  answers?: Record<string, FormAnswer>;
+  /** False if the form timed out before it was submitted (answers are partial) */
+  submitted?: boolean;
+  /** The question was cancelled with /stop before anyone answered */
+  cancelled?: boolean;
+  /** Discord user who answered (unset for timeouts and auto-selected defaults) */
+  responderId?: string;
+  responderUsername?: string;
   error?: string;
 }
@@ -0,0 +1,47 @@
+/**
+ * Glob matching for blocked file patterns (FileSharingPolicy.deniedPatterns).
+ * Shared because both parts check paths: the UI part before uploading files,
+ * the workspace part for files attached to /new-agent and files in send_diff diffs.
+ */
+
+import * as path from 'path';
+
+// Windows and macOS filesystems are case-insensitive by default: `.ENV` is the same file as `.env`
+const CASE_INSENSITIVE_PLATFORMS: NodeJS.Platform[] = ['win32', 'darwin'];
+
+/**
+ * Convert a glob pattern to a RegExp. Supports `*`, `**` and `?`.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories
+        regex += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+        i += pattern[i + 2] === '/' ? 2 : 1;
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}$`, CASE_INSENSITIVE_PLATFORMS.includes(process.platform) ? 'i' : '');
+}
+
+/**
+ * Patterns without a slash match the file name; patterns with one match the full path.
+ */
+export function findDeniedPattern(filePath: string, patterns: string[]): string | undefined {
+  const normalized = filePath.split(path.sep).join('/');
+  const baseName = path.basename(filePath);
+
+  return patterns.find(pattern => {
+    const regex = globToRegExp(pattern);
+    return pattern.includes('/') ? regex.test(normalized) : regex.test(baseName);
+  });
+}
@@ -14,11 +14,65 @@ export type ThreadCreationNotify = 'silent' | 'ping';
 /** When to ping users on AI responses */
 export type MessagePingMode = 'never' | 'discord_conversation' | 'always';
 
+/** How to post AI responses longer than the long response threshold */
+export type LongResponseMode = 'split' | 'attachment';
+
+/** Which agent responses to post to Discord from the Cursor transcript */
+export type TranscriptMirrorMode = 'off' | 'missed' | 'all';
+
+/** Things a Discord user can do that drive a Cursor agent */
+export type AccessRight = 'prompt' | 'answer' | 'createAgent' | 'approve';
+
+/** Discord users/roles granted an access right */
+export interface AccessRule {
+  userIds: string[];
+  roleIds: string[];
+}
+
+/** Who may drive agents from Discord */
+export interface AccessPolicy {
+  /** When false, anyone who can post in the channel has every right */
+  enabled: boolean;
+  /** Rules per right. With the policy enabled, a right without a rule is denied to everyone */
+  rules: Partial<Record<AccessRight, AccessRule>>;
+}
+
+/** What send_file_to_thread may upload to Discord */
+export interface FileSharingPolicy {
+  /** Extra directories files may be shared from (workspace folders and the temp dir are always allowed) */
+  allowedRoots: string[];
+  /** Glob patterns for files that are never shared (no slash: file name, with slash: full path) */
+  deniedPatterns: string[];
+  /** Maximum file size in MB */
+  maxFileSizeMb: number;
+  /** Ask in Cursor before sharing a file outside the allowed roots (instead of rejecting it) */
+  confirmOutsideRoots: boolean;
+}
+
+/** Masking of secrets in text sent to Discord */
+export interface RedactionSettings {
+  /** Run the built-in and custom detectors (the bot token is always masked) */
+  enabled: boolean;
+  /** Also mask random-looking strings that don't match a known token format */
+  detectHighEntropy: boolean;
+  /** Extra regular expressions to mask */
+  customPatterns: string[];
+}
+
+/** Redaction settings until the user changes them (shared: both parts fall back to them) */
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  detectHighEntropy: true,
+  customPatterns: [],
+};
+
 export interface GlobalConfig {
   guildId: string;
   guildName?: string;
   /** User IDs to auto-invite when creating new threads */
   threadInviteUserIds?: string[];
+  /** User IDs to DM about escalated questions that are still unanswered */
+  questionEscalationUserIds?: string[];
   /** How to notify users when threads are created (default: silent) */
   threadCreationNotify?: ThreadCreationNotify;
   /** When to ping users on AI message responses (default: never) */
@@ -27,6 +81,20 @@ export interface GlobalConfig {
   implicitArchiveCount?: number;
   /** Hours since last activity before allowing Discord auto-archive (default: 48) */
   implicitArchiveHours?: number;
+  /** How to post responses longer than longResponseThreshold (default: split) */
+  longResponseMode?: LongResponseMode;
+  /** Response length in characters above which longResponseMode applies (default: 4000) */
+  longResponseThreshold?: number;
+  /** Number of lines to show as the summary when attaching a response (default: 10) */
+  longResponseSummaryLines?: number;
+  /** Post agent responses from the Cursor transcript: off, only ones the agent didn't post itself, or all (default: missed) */
+  transcriptMirrorMode?: TranscriptMirrorMode;
+  /** Who may send prompts, answer questions and create agents (default: disabled, everyone allowed) */
+  accessPolicy?: AccessPolicy;
+  /** What send_file_to_thread may upload (default: workspace + temp dir, no secrets, 10 MB) */
+  fileSharingPolicy?: Partial<FileSharingPolicy>;
+  /** Secret masking for outbound text (default: enabled, high-entropy detection on) */
+  redaction?: Partial<RedactionSettings>;
 }
 
 export interface ChatMapping {
@@ -36,6 +104,24 @@ export interface ChatMapping {
   createdAt: string;
   /** Timestamp when this mapping was claimed by get_my_thread_id */
   claimedAt?: string;
+  /** Thread name was set by the user (e.g. /new-agent thread_name) - not synced from Cursor */
+  customName?: boolean;
+}
+
+/** A Discord message attachment saved into the workspace inbox */
+export interface DownloadedAttachment {
+  name: string;
+  contentType?: string;
+  size: number;
+  /** Discord CDN URL of the original attachment */
+  url: string;
+  isImage: boolean;
+  /** Absolute path of the saved file (undefined if the download failed) */
+  localPath?: string;
+  /** Workspace-relative path of the saved file */
+  relativePath?: string;
+  /** Why the attachment could not be saved */
+  error?: string;
 }
 
 export interface ThreadInfo {
@@ -2,7 +2,8 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { ProjectConfig, GlobalConfig, ChatMapping, ThreadCreationNotify, MessagePingMode } from '../shared/types';
+import { ProjectConfig, GlobalConfig, ChatMapping, ThreadCreationNotify, MessagePingMode, LongResponseMode, TranscriptMirrorMode, AccessPolicy, AccessRight, AccessRule, FileSharingPolicy, RedactionSettings, DEFAULT_REDACTION_SETTINGS } from '../shared/types';
+import { DEFAULT_FILE_SHARING_POLICY } from './fileSharingPolicy';
 
 /**
  * Manages configuration storage for the Discord bridge.
@@ -78,6 +79,26 @@ export class ConfigManager {
     this.outputChannel.appendLine(`Thread invite user IDs saved: ${userIds.length} user(s)`);
   }
 
+  // ============ Question Escalation User IDs ============
+
+  getQuestionEscalationUserIds(): string[] {
+    const config = this.getGlobalConfig();
+    return config?.questionEscalationUserIds || [];
+  }
+
+  async setQuestionEscalationUserIds(userIds: string[]): Promise<void> {
+    const config = this.getGlobalConfig();
+    if (!config) {
+      this.outputChannel.appendLine('Cannot set escalation user IDs: no global config');
+      return;
+    }
+    await this.setGlobalConfig({
+      ...config,
+      questionEscalationUserIds: userIds,
+    });
+    this.outputChannel.appendLine(`Question escalation user IDs saved: ${userIds.length} user(s)`);
+  }
+
   // ============ Notification Settings ============
 
   getThreadCreationNotify(): ThreadCreationNotify {
@@ -154,6 +175,156 @@ export class ConfigManager {
     this.outputChannel.appendLine(`Implicit archive hours set to: ${hours}`);
   }
 
+  // ============ Long Response Settings ============
+
+  getLongResponseMode(): LongResponseMode {
+    const config = this.getGlobalConfig();
+    return config?.longResponseMode || 'split';
+  }
+
+  async setLongResponseMode(mode: LongResponseMode): Promise<void> {
+    const config = this.getGlobalConfig();
+    if (!config) {
+      this.outputChannel.appendLine('Cannot set long response mode: no global config');
+      return;
+    }
+    await this.setGlobalConfig({
+      ...config,
+      longResponseMode: mode,
+    });
+    this.outputChannel.appendLine(`Long response mode set to: ${mode}`);
+  }
+
+  getLongResponseThreshold(): number {
+    const config = this.getGlobalConfig();
+    return config?.longResponseThreshold ?? 4000;
+  }
+
+  async setLongResponseThreshold(threshold: number): Promise<void> {
+    const config = this.getGlobalConfig();
+    if (!config) {
+      this.outputChannel.appendLine('Cannot set long response threshold: no global config');
+      return;
+    }
+    await this.setGlobalConfig({
+      ...config,
+      longResponseThreshold: threshold,
+    });
+    this.outputChannel.appendLine(`Long response threshold set to: ${threshold}`);
+  }
+
+  getLongResponseSummaryLines(): number {
+    const config = this.getGlobalConfig();
+    return config?.longResponseSummaryLines ?? 10;
+  }
+
+  async setLongResponseSummaryLines(lines: number): Promise<void> {
+    const config = this.getGlobalConfig();
+    if (!config) {
+      this.outputChannel.appendLine('Cannot set long response summary lines: no global config');
+      return;
+    }
+    await this.setGlobalConfig({
+      ...config,
+      longResponseSummaryLines: lines,
+    });
+    this.outputChannel.appendLine(`Long response summary lines set to: ${lines}`);
+  }
+
+  // ============ Transcript Mirror ============
+
+  getTranscriptMirrorMode(): TranscriptMirrorMode {
+    const config = this.getGlobalConfig();
+    return config?.transcriptMirrorMode || 'missed';
+  }
+
+  async setTranscriptMirrorMode(mode: TranscriptMirrorMode): Promise<void> {
+    const config = this.getGlobalConfig();
+    if (!config) {
+      this.outputChannel.appendLine('Cannot set transcript mirror mode: no global config');
+      return;
+    }
+    await this.setGlobalConfig({
+      ...config,
+      transcriptMirrorMode: mode,
+    });
+    this.outputChannel.appendLine(`Transcript mirror mode set to: ${mode}`);
+  }
+
+  // ============ Access Control ============
+
+  getAccessPolicy(): AccessPolicy {
+    const config = this.getGlobalConfig();
+    return config?.accessPolicy ?? { enabled: false, rules: {} };
+  }
+
+  async setAccessControlEnabled(enabled: boolean): Promise<void> {
+    const config = this.getGlobalConfig();
+    if (!config) {
+      this.outputChannel.appendLine('Cannot set access control: no global config');
+      return;
+    }
+    await this.setGlobalConfig({
+      ...config,
+      accessPolicy: { ...this.getAccessPolicy(), enabled },
+    });
+    this.outputChannel.appendLine(`Access control ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  async setAccessRule(right: AccessRight, rule: AccessRule): Promise<void> {
+    const config = this.getGlobalConfig();
+    if (!config) {
+      this.outputChannel.appendLine('Cannot set access rule: no global config');
+      return;
+    }
+    const policy = this.getAccessPolicy();
+    await this.setGlobalConfig({
+      ...config,
+      accessPolicy: { ...policy, rules: { ...policy.rules, [right]: rule } },
+    });
+    this.outputChannel.appendLine(`Access rule for ${right} saved: ${rule.userIds.length} user(s), ${rule.roleIds.length} role(s)`);
+  }
+
+  // ============ File Sharing ============
+
+  getFileSharingPolicy(): FileSharingPolicy {
+    const config = this.getGlobalConfig();
+    return { ...DEFAULT_FILE_SHARING_POLICY, ...config?.fileSharingPolicy };
+  }
+
+  async updateFileSharingPolicy(update: Partial<FileSharingPolicy>): Promise<void> {
+    const config = this.getGlobalConfig();
+    if (!config) {
+      this.outputChannel.appendLine('Cannot update file sharing policy: no global config');
+      return;
+    }
+    await this.setGlobalConfig({
+      ...config,
+      fileSharingPolicy: { ...config.fileSharingPolicy, ...update },
+    });
+    this.outputChannel.appendLine(`File sharing policy updated: ${Object.keys(update).join(', ')}`);
+  }
+
+  // ============ Secret Redaction ============
+
+  getRedactionSettings(): RedactionSettings {
+    const config = this.getGlobalConfig();
+    return { ...DEFAULT_REDACTION_SETTINGS, ...config?.redaction };
+  }
+
+  async updateRedactionSettings(update: Partial<RedactionSettings>): Promise<void> {
+    const config = this.getGlobalConfig();
+    if (!config) {
+      this.outputChannel.appendLine('Cannot update redaction settings: no global config');
+      return;
+    }
+    await this.setGlobalConfig({
+      ...config,
+      redaction: { ...config.redaction, ...update },
+    });
+    this.outputChannel.appendLine(`Redaction settings updated: ${Object.keys(update).join(', ')}`);
+  }
+
   // ============ Project Configuration (Per-Workspace) ============
 
   getProjectConfig(): ProjectConfig | undefined {
@@ -12,9 +12,9 @@ import { ConfigManager } from './configManager';
 import { HttpServer } from './httpServer';
 import { StatusBarManager } from './statusBar';
 import { WebviewPanelManager } from './webviewPanel';
-import { sendMessageToChat, sendMessageToFocusedChat } from './messageHandler';
+import { sendMessageToChat, sendMessageToFocusedChat, cancelChatGeneration, createNewAgentChat } from './messageHandler';
 import { checkKeySimulationAvailable } from './keySimulation';
-import { Commands, SendToChatParams, GetConfigResult, SaveConfigParams, StatusUpdate, CreateNewAgentChatResult } from '../shared/commands';
+import { Commands, SendToChatParams, GetConfigResult, SaveConfigParams, StatusUpdate, CreateNewAgentChatResult, SendToFocusedChatParams, CancelChatGenerationParams, CancelChatGenerationResult } from '../shared/commands';
 import { ConnectionStatus } from '../shared/types';
 
 let configManager: ConfigManager;
@@ -122,27 +122,25 @@ function registerUICommands(context: vscode.ExtensionContext): void {
 
   context.subscriptions.push(
     vscode.commands.registerCommand(Commands.CREATE_NEW_AGENT_CHAT, async (): Promise<CreateNewAgentChatResult> => {
-      try {
-        outputChannel.appendLine('[CreateNewAgentChat] Creating new agent chat...');
-        
-        // Create new agent chat - it will be focused automatically
-        await vscode.commands.executeCommand('composer.newAgentChat');
-        
-        // Give it a moment to initialize
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        outputChannel.appendLine('[CreateNewAgentChat] New agent chat created and focused');
-        return { success: true };
-      } catch (error: any) {
-        outputChannel.appendLine(`[CreateNewAgentChat] Error: ${error.message}`);
-        return { success: false, error: error.message };
-      }
+      return createNewAgentChat(outputChannel);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(Commands.SEND_TO_FOCUSED_CHAT, async (params: SendToFocusedChatParams) => {
+      return sendMessageToFocusedChat(params.message, outputChannel, {
+        threadId: params.threadId,
+        files: params.files,
+      });
     })
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand(Commands.SEND_TO_FOCUSED_CHAT, async (params: { message: string }) => {
-      return sendMessageToFocusedChat(params.message, outputChannel);
+    vscode.commands.registerCommand(Commands.CANCEL_CHAT_GENERATION, async (params: CancelChatGenerationParams): Promise<CancelChatGenerationResult> => {
+      if (!params?.chatId) {
+        return { success: false, error: 'chatId is required' };
+      }
+      return cancelChatGeneration(params.chatId, outputChannel);
     })
   );
 
@@ -159,10 +157,18 @@ function registerUICommands(context: vscode.ExtensionContext): void {
         channelId: project?.channelId,
         channelName: project?.channelName,
         threadInviteUserIds: global?.threadInviteUserIds,
+        questionEscalationUserIds: global?.questionEscalationUserIds,
         threadCreationNotify: global?.threadCreationNotify,
         messagePingMode: global?.messagePingMode,
         implicitArchiveCount: global?.implicitArchiveCount ?? 10,
         implicitArchiveHours: global?.implicitArchiveHours ?? 48,
+        longResponseMode: global?.longResponseMode || 'split',
+        longResponseThreshold: global?.longResponseThreshold ?? 4000,
+        longResponseSummaryLines: global?.longResponseSummaryLines ?? 10,
+        transcriptMirrorMode: configManager.getTranscriptMirrorMode(),
+        accessPolicy: global?.accessPolicy,
+        redaction: configManager.getRedactionSettings(),
+        deniedFilePatterns: configManager.getFileSharingPolicy().deniedPatterns,
       };
     })
   );
@@ -0,0 +1,138 @@
+/**
+ * File sharing policy for send_file_to_thread.
+ * Runs in the UI part, which reads the file from the local disk before it is
+ * uploaded to Discord. Blocks secrets (keys, .env files, credentials), files
+ * outside the workspace/temp dir, and files too large for Discord.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSharingPolicy } from '../shared/types';
+import { findDeniedPattern } from '../shared/filePatterns';
+
+export const DEFAULT_FILE_SHARING_POLICY: FileSharingPolicy = {
+  allowedRoots: [],
+  deniedPatterns: [
+    '.env',
+    '.env.*',
+    '*.pem',
+    '*.key',
+    '*.p12',
+    '*.pfx',
+    '*.keystore',
+    '*.jks',
+    'id_rsa*',
+    'id_dsa*',
+    'id_ecdsa*',
+    'id_ed25519*',
+    '.npmrc',
+    '.pypirc',
+    '.netrc',
+    '.git-credentials',
+    'credentials*',
+    'secrets.*',
+    '**/.ssh/**',
+    '**/.aws/**',
+    '**/.gnupg/**',
+    '**/.kube/config',
+    '**/.docker/config.json',
+  ],
+  // Discord's upload limit for servers without boosts
+  maxFileSizeMb: 10,
+  confirmOutsideRoots: false,
+};
+
+export type PolicyViolationRule = 'not_found' | 'denied_pattern' | 'too_large' | 'outside_allowed_roots';
+
+/** Why a file was not shared (returned to the agent) */
+export interface PolicyViolation {
+  rule: PolicyViolationRule;
+  reason: string;
+  filePath: string;
+}
+
+export type FileSharingCheckResult =
+  | { allowed: true; realPath: string; size: number }
+  | { allowed: false; violation: PolicyViolation };
+
+function realPathOrSelf(p: string): string {
+  try {
+    return fs.realpathSync(p);
+  } catch {
+    return p;
+  }
+}
+
+function isInside(filePath: string, root: string): boolean {
+  const relative = path.relative(root, filePath);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Directories files may be shared from: workspace folders, the temp dir and
+ * any extra roots from the policy (symlinks resolved, e.g. /tmp on macOS).
+ */
+function getAllowedRoots(policy: FileSharingPolicy): string[] {
+  const roots = [
+    ...(vscode.workspace.workspaceFolders || []).map(f => f.uri.fsPath),
+    os.tmpdir(),
+    ...policy.allowedRoots,
+  ];
+  return roots.map(root => realPathOrSelf(path.resolve(root)));
+}
+
+/**
+ * Check whether a file may be shared. Files outside the allowed roots are
+ * rejected, or - with confirmOutsideRoots - shared after the user confirms.
+ */
+export async function checkFileSharing(
+  filePath: string,
+  policy: FileSharingPolicy
+): Promise<FileSharingCheckResult> {
+  const resolved = path.resolve(filePath);
+  const deny = (rule: PolicyViolationRule, reason: string): FileSharingCheckResult =>
+    ({ allowed: false, violation: { rule, reason, filePath } });
+
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(resolved);
+  } catch {
+    return deny('not_found', `File not found: ${filePath}`);
+  }
+  if (!stat.isFile()) {
+    return deny('not_found', `Not a file: ${filePath}`);
+  }
+
+  // Check both the given path and where a symlink points to
+  const realPath = realPathOrSelf(resolved);
+  const deniedPattern = findDeniedPattern(resolved, policy.deniedPatterns)
+    ?? findDeniedPattern(realPath, policy.deniedPatterns);
+  if (deniedPattern) {
+    return deny('denied_pattern', `Sharing files matching "${deniedPattern}" is blocked because they commonly contain secrets.`);
+  }
+
+  const maxBytes = policy.maxFileSizeMb * 1024 * 1024;
+  if (stat.size > maxBytes) {
+    const sizeMb = (stat.size / (1024 * 1024)).toFixed(1);
+    return deny('too_large', `File is ${sizeMb} MB, larger than the ${policy.maxFileSizeMb} MB limit.`);
+  }
+
+  if (!getAllowedRoots(policy).some(root => isInside(realPath, root))) {
+    if (policy.confirmOutsideRoots) {
+      const choice = await vscode.window.showWarningMessage(
+        `An agent wants to upload a file from outside the workspace to Discord:\n${realPath}`,
+        { modal: true },
+        'Share File'
+      );
+      if (choice === 'Share File') {
+        return { allowed: true, realPath, size: stat.size };
+      }
+      return deny('outside_allowed_roots', 'The file is outside the workspace and the user declined to share it.');
+    }
+    return deny('outside_allowed_roots', 'Only files inside the workspace folders or the temp directory can be shared.');
+  }
+
+  return { allowed: true, realPath, size: stat.size };
+}
@@ -10,7 +10,10 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 import { sendMessageToChat } from './messageHandler';
 import { ConfigManager } from './configManager';
-import { Commands, PostToThreadParams, CreateThreadParams, SendFileToThreadParams, StartTypingParams, StopTypingParams, RenameThreadParams, ResolveThreadIdResult, ForwardUserPromptParams, AskQuestionParams, AskQuestionResult } from '../shared/commands';
+import { createSessionToken, removeSessionToken, isAuthorizedHeader } from './sessionToken';
+import { checkFileSharing } from './fileSharingPolicy';
+import { findDeniedPattern } from '../shared/filePatterns';
+import { Commands, PostToThreadParams, CreateThreadParams, SendFileToThreadParams, SendDiffParams, SendDiffResult, StartTypingParams, StopTypingParams, RenameThreadParams, ResolveThreadIdResult, ForwardUserPromptParams, AskQuestionParams, AskQuestionsParams, AskQuestionResult, RequestApprovalParams, RequestApprovalResult, CheckMessagesParams, CheckMessagesResult, PostToThreadResult, EditMessageParams, EditMessageResult, AppendToMessageParams, AppendToMessageResult } from '../shared/commands';
 
 const DEFAULT_PORT = 19876;
 const PORT_RANGE_SIZE = 10; // Try ports 19876-19885
@@ -20,6 +23,8 @@ export class HttpServer {
   private port: number;
   private outputChannel: vscode.OutputChannel;
   private configManager: ConfigManager;
+  /** Token the MCP server must send with every request (except /health) */
+  private sessionToken: string | null = null;
 
   constructor(
     port: number = DEFAULT_PORT,
@@ -76,6 +81,7 @@ export class HttpServer {
     for (let port = startPort; port < endPort; port++) {
       try {
         await this.tryPort(port);
+        this.sessionToken = createSessionToken(port);
         this.outputChannel.appendLine(`HTTP server listening on http://127.0.0.1:${port}`);
         return;
       } catch (error: any) {
@@ -94,6 +100,8 @@ export class HttpServer {
     if (this.server) {
       this.server.close();
       this.server = null;
+      this.sessionToken = null;
+      removeSessionToken(this.port);
       this.outputChannel.appendLine('HTTP server stopped');
     }
   }
@@ -103,20 +111,19 @@ export class HttpServer {
   }
 
   private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
-    // CORS headers
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-    if (req.method === 'OPTIONS') {
-      res.writeHead(200);
-      res.end();
-      return;
-    }
+    // No CORS headers: the API is only for the MCP server, never for web pages
 
     const url = new URL(req.url || '/', `http://127.0.0.1:${this.port}`);
     this.outputChannel.appendLine(`[HTTP] ${req.method} ${url.pathname}`);
 
+    // /health stays open so the MCP server can find the port for its workspace
+    if (url.pathname !== '/health'
+        && (!this.sessionToken || !isAuthorizedHeader(req.headers.authorization, this.sessionToken))) {
+      this.outputChannel.appendLine(`[HTTP] Rejected unauthenticated request to ${url.pathname}`);
+      this.sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
     try {
       switch (url.pathname) {
         case '/health':
@@ -131,10 +138,22 @@ export class HttpServer {
           await this.handlePostToThread(req, res);
           break;
 
+        case '/api/edit-message':
+          await this.handleEditMessage(req, res);
+          break;
+
+        case '/api/append-to-message':
+          await this.handleAppendToMessage(req, res);
+          break;
+
         case '/api/send-file-to-thread':
           await this.handleSendFileToThread(req, res);
           break;
 
+        case '/api/send-diff':
+          await this.handleSendDiff(req, res);
+          break;
+
         case '/api/start-typing':
           await this.handleStartTyping(req, res);
           break;
@@ -152,7 +171,7 @@ export class HttpServer {
           break;
 
         case '/api/check-messages':
-          await this.handleCheckMessages(res);
+          await this.handleCheckMessages(req, res);
           break;
 
         case '/api/get-active-thread-id':
@@ -167,6 +186,14 @@ export class HttpServer {
           await this.handleAskQuestion(req, res);
           break;
 
+        case '/api/ask-questions':
+          await this.handleAskQuestions(req, res);
+          break;
+
+        case '/api/request-approval':
+          await this.handleRequestApproval(req, res);
+          break;
+
         case '/message':
           await this.handleSendToChat(req, res);
           break;
@@ -242,13 +269,13 @@ export class HttpServer {
 
     try {
       // Forward to workspace part
-      const result = await vscode.commands.executeCommand<{ success: boolean; error?: string }>(
+      const result = await vscode.commands.executeCommand<PostToThreadResult>(
         Commands.POST_TO_THREAD,
         { ...data, threadId }
       );
 
       if (result?.success) {
-        this.sendJson(res, 200, { success: true, threadId });
+        this.sendJson(res, 200, { success: true, threadId, messageIds: result.messageIds });
       } else {
         this.sendJson(res, 500, { success: false, error: result?.error || 'Failed to post' });
       }
@@ -257,6 +284,92 @@ export class HttpServer {
     }
   }
 
+  private async handleEditMessage(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method !== 'POST') {
+      this.sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const body = await this.readBody(req);
+    const data = JSON.parse(body) as EditMessageParams;
+
+    if (!data.messageId) {
+      this.sendJson(res, 400, { error: 'Missing messageId' });
+      return;
+    }
+
+    if (!data.message) {
+      this.sendJson(res, 400, { error: 'Missing message' });
+      return;
+    }
+
+    // Require explicit thread ID - don't fall back to getCurrentThreadId()
+    if (!data.threadId) {
+      this.outputChannel.appendLine('[HTTP] edit_message called without thread_id');
+      this.sendJson(res, 400, { error: 'No thread ID provided. Call get_my_thread_id first to get your thread ID.' });
+      return;
+    }
+
+    try {
+      // Forward to workspace part
+      const result = await vscode.commands.executeCommand<EditMessageResult>(
+        Commands.EDIT_MESSAGE,
+        data
+      );
+
+      if (result?.success) {
+        this.sendJson(res, 200, { success: true, threadId: result.threadId, messageIds: result.messageIds });
+      } else {
+        this.sendJson(res, 500, { success: false, error: result?.error || 'Failed to edit message' });
+      }
+    } catch (error: any) {
+      this.sendJson(res, 500, { success: false, error: error.message });
+    }
+  }
+
+  private async handleAppendToMessage(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method !== 'POST') {
+      this.sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const body = await this.readBody(req);
+    const data = JSON.parse(body) as AppendToMessageParams;
+
+    if (!data.messageId) {
+      this.sendJson(res, 400, { error: 'Missing messageId' });
+      return;
+    }
+
+    if (!data.text) {
+      this.sendJson(res, 400, { error: 'Missing text' });
+      return;
+    }
+
+    // Require explicit thread ID - don't fall back to getCurrentThreadId()
+    if (!data.threadId) {
+      this.outputChannel.appendLine('[HTTP] append_to_message called without thread_id');
+      this.sendJson(res, 400, { error: 'No thread ID provided. Call get_my_thread_id first to get your thread ID.' });
+      return;
+    }
+
+    try {
+      // Forward to workspace part
+      const result = await vscode.commands.executeCommand<AppendToMessageResult>(
+        Commands.APPEND_TO_MESSAGE,
+        data
+      );
+
+      if (result?.success) {
+        this.sendJson(res, 200, { success: true, threadId: result.threadId, messageIds: result.messageIds });
+      } else {
+        this.sendJson(res, 500, { success: false, error: result?.error || 'Failed to append to message' });
+      }
+    } catch (error: any) {
+      this.sendJson(res, 500, { success: false, error: error.message });
+    }
+  }
+
   private async handleSendFileToThread(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
     if (req.method !== 'POST') {
       this.sendJson(res, 405, { error: 'Method not allowed' });
@@ -281,14 +394,17 @@ export class HttpServer {
     }
 
     try {
-      // Read the file locally (UI extension runs on the same machine as MCP server)
-      // and base64 encode it for transfer to the workspace extension (which may be remote)
-      if (!fs.existsSync(data.filePath)) {
-        this.sendJson(res, 400, { error: `File not found: ${data.filePath}` });
+      // Check the file against the sharing policy before reading it
+      const check = await checkFileSharing(data.filePath, this.configManager.getFileSharingPolicy());
+      if (!check.allowed) {
+        this.outputChannel.appendLine(`[HTTP] send_file_to_thread: rejected ${data.filePath} (${check.violation.rule})`);
+        this.sendJson(res, 403, { success: false, error: check.violation.reason, policyViolation: check.violation });
         return;
       }
 
-      const fileContent = fs.readFileSync(data.filePath);
+      // Read the file locally (UI extension runs on the same machine as MCP server)
+      // and base64 encode it for transfer to the workspace extension (which may be remote)
+      const fileContent = fs.readFileSync(check.realPath);
       const fileContentBase64 = fileContent.toString('base64');
       const fileName = data.fileName || path.basename(data.filePath);
 
@@ -315,6 +431,52 @@ export class HttpServer {
     }
   }
 
+  private async handleSendDiff(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method !== 'POST') {
+      this.sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const body = await this.readBody(req);
+    const data = JSON.parse(body) as SendDiffParams;
+
+    // Require explicit thread ID, like send_file_to_thread
+    if (!data.threadId) {
+      this.outputChannel.appendLine('[HTTP] send_diff called without thread_id');
+      this.sendJson(res, 400, { error: 'No thread ID provided. Call get_my_thread_id first to get your thread ID.' });
+      return;
+    }
+
+    if (!data.diff && (!data.files || data.files.length === 0)) {
+      this.sendJson(res, 400, { error: 'Missing diff or files' });
+      return;
+    }
+
+    // Files that are never shared (secrets) can't be diffed into Discord either.
+    // The Workspace part checks every file in the resulting diff again before posting.
+    const deniedPatterns = this.configManager.getFileSharingPolicy().deniedPatterns;
+    for (const file of data.files ?? []) {
+      const pattern = findDeniedPattern(file, deniedPatterns);
+      if (pattern) {
+        this.outputChannel.appendLine(`[HTTP] send_diff: rejected ${file} (denied_pattern)`);
+        this.sendJson(res, 403, { success: false, error: `Diffing files matching "${pattern}" is blocked because they commonly contain secrets: ${file}` });
+        return;
+      }
+    }
+
+    try {
+      const result = await vscode.commands.executeCommand<SendDiffResult>(Commands.SEND_DIFF, data);
+
+      if (result?.success) {
+        this.sendJson(res, 200, result);
+      } else {
+        this.sendJson(res, 500, { success: false, error: result?.error || 'Failed to send diff' });
+      }
+    } catch (error: any) {
+      this.sendJson(res, 500, { success: false, error: error.message });
+    }
+  }
+
   private async handleStartTyping(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
     if (req.method !== 'POST') {
       this.sendJson(res, 405, { error: 'Method not allowed' });
@@ -449,9 +611,37 @@ export class HttpServer {
     }
   }
 
-  private async handleCheckMessages(res: http.ServerResponse): Promise<void> {
-    // Return empty for now - real-time messages are handled by event flow
-    this.sendJson(res, 200, { success: true, messages: [] });
+  private async handleCheckMessages(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method !== 'POST') {
+      this.sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const body = await this.readBody(req);
+    const data = JSON.parse(body) as CheckMessagesParams;
+
+    // Require explicit thread ID - don't fall back to getCurrentThreadId()
+    if (!data.threadId) {
+      this.outputChannel.appendLine('[HTTP] check_discord_messages called without thread_id');
+      this.sendJson(res, 400, { error: 'No thread ID provided. Call get_my_thread_id first to get your thread ID.' });
+      return;
+    }
+
+    try {
+      // Forward to workspace part, which owns the inbox
+      const result = await vscode.commands.executeCommand<CheckMessagesResult>(
+        Commands.CHECK_MESSAGES,
+        data
+      );
+
+      if (result?.success) {
+        this.sendJson(res, 200, { success: true, messages: result.messages || [] });
+      } else {
+        this.sendJson(res, 500, { success: false, error: result?.error || 'Failed to check messages' });
+      }
+    } catch (error: any) {
+      this.sendJson(res, 500, { success: false, error: error.message });
+    }
   }
 
   private async handleGetActiveThreadId(res: http.ServerResponse): Promise<void> {
@@ -537,7 +727,8 @@ export class HttpServer {
       return;
     }
 
-    if (!data.options || data.options.length === 0) {
+    const needsOptions = !data.kind || data.kind === 'buttons' || data.kind === 'select';
+    if (needsOptions && (!data.options || data.options.length === 0)) {
       this.sendJson(res, 400, { error: 'Missing options' });
       return;
     }
@@ -556,7 +747,7 @@ export class HttpServer {
       if (result?.success) {
         this.sendJson(res, 200, result);
       } else {
-        this.sendJson(res, 200, { success: false, error: result?.error || 'Failed to get response' });
+        this.sendJson(res, 200, { ...result, success: false, error: result?.error || 'Failed to get response' });
       }
     } catch (error: any) {
       this.outputChannel.appendLine(`[HTTP] ask_question error: ${error.message}`);
@@ -564,6 +755,88 @@ export class HttpServer {
     }
   }
 
+  private async handleAskQuestions(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method !== 'POST') {
+      this.sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const body = await this.readBody(req);
+    const data = JSON.parse(body) as AskQuestionsParams;
+
+    if (!data.threadId) {
+      this.sendJson(res, 400, { error: 'Missing threadId' });
+      return;
+    }
+
+    if (!data.questions || data.questions.length === 0) {
+      this.sendJson(res, 400, { error: 'Missing questions' });
+      return;
+    }
+
+    try {
+      this.outputChannel.appendLine(`[HTTP] ask_questions: forwarding to workspace part (thread: ${data.threadId})`);
+
+      // Forward to workspace part - this will block until the form is submitted or times out
+      const result = await vscode.commands.executeCommand<AskQuestionResult>(
+        Commands.ASK_QUESTIONS,
+        data
+      );
+
+      this.outputChannel.appendLine(`[HTTP] ask_questions: result = ${JSON.stringify(result)}`);
+
+      if (result?.success) {
+        this.sendJson(res, 200, result);
+      } else {
+        this.sendJson(res, 200, { ...result, success: false, error: result?.error || 'Failed to get response' });
+      }
+    } catch (error: any) {
+      this.outputChannel.appendLine(`[HTTP] ask_questions error: ${error.message}`);
+      this.sendJson(res, 500, { success: false, error: error.message });
+    }
+  }
+
+  private async handleRequestApproval(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method !== 'POST') {
+      this.sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const body = await this.readBody(req);
+    const data = JSON.parse(body) as RequestApprovalParams;
+
+    if (!data.threadId) {
+      this.sendJson(res, 400, { error: 'Missing threadId' });
+      return;
+    }
+
+    if (!data.action) {
+      this.sendJson(res, 400, { error: 'Missing action' });
+      return;
+    }
+
+    try {
+      this.outputChannel.appendLine(`[HTTP] request_approval: forwarding to workspace part (thread: ${data.threadId})`);
+
+      // Forward to workspace part - this will block until an approver decides or the request expires
+      const result = await vscode.commands.executeCommand<RequestApprovalResult>(
+        Commands.REQUEST_APPROVAL,
+        data
+      );
+
+      this.outputChannel.appendLine(`[HTTP] request_approval: result = ${JSON.stringify(result)}`);
+
+      if (result?.success) {
+        this.sendJson(res, 200, result);
+      } else {
+        this.sendJson(res, 200, { ...result, success: false, error: result?.error || 'Failed to get a decision' });
+      }
+    } catch (error: any) {
+      this.outputChannel.appendLine(`[HTTP] request_approval error: ${error.message}`);
+      this.sendJson(res, 500, { success: false, error: error.message });
+    }
+  }
+
   private async handleSendToChat(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
     if (req.method !== 'POST') {
       this.sendJson(res, 405, { error: 'Method not allowed' });
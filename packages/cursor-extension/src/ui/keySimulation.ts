@@ -157,34 +157,56 @@ export async function focusCursor(workspaceName?: string): Promise<{ success: bo
   }
 }
 
+type Key = 'enter' | 'escape';
+
+// How each key is named by the platform's key simulation tool
+const KEY_NAMES: Record<Key, { darwinKeyCode: number; sendKeys: string; xdotool: string }> = {
+  enter: { darwinKeyCode: 36, sendKeys: '{ENTER}', xdotool: 'Return' },
+  escape: { darwinKeyCode: 53, sendKeys: '{ESC}', xdotool: 'Escape' },
+};
+
 /**
  * Press the Enter key using platform-specific methods
  * @param workspaceName - Optional workspace folder name to target specific window
  */
 export async function pressEnter(workspaceName?: string): Promise<{ success: boolean; error?: string }> {
+  return pressKey('enter', workspaceName);
+}
+
+/**
+ * Press the Escape key using platform-specific methods (stops agent generation
+ * in a focused composer)
+ * @param workspaceName - Optional workspace folder name to target specific window
+ */
+export async function pressEscape(workspaceName?: string): Promise<{ success: boolean; error?: string }> {
+  return pressKey('escape', workspaceName);
+}
+
+async function pressKey(key: Key, workspaceName?: string): Promise<{ success: boolean; error?: string }> {
   const platform = os.platform() as Platform;
+  const names = KEY_NAMES[key];
 
   try {
     switch (platform) {
       case 'darwin':
-        // macOS: Focus specific window first, then send Enter key
+        // macOS: Focus specific window first, then send the key
         await focusCursor(workspaceName);
         await new Promise((resolve) => setTimeout(resolve, 100));
-        await execAsync('osascript -e \'tell application "System Events" to key code 36\'');
+        await execAsync(`osascript -e 'tell application "System Events" to key code ${names.darwinKeyCode}'`);
         break;
 
       case 'win32':
-        // Windows: Focus Cursor first, then send Enter
+        // Windows: Focus Cursor first, then send the key
         await focusCursor(workspaceName);
         await execAsync(
-          'powershell -command "Add-Type -AssemblyName System.Windows.Forms; [System.Windows.Forms.SendKeys]::SendWait(\'{ENTER}\')"'
+          `powershell -command "Add-Type -AssemblyName System.Windows.Forms; [System.Windows.Forms.SendKeys]::SendWait('${names.sendKeys}')"`
         );
         break;
 
       case 'linux':
         // Linux: Focus Cursor first, then use xdotool
         await focusCursor(workspaceName);
-        await execAsync('xdotool key Return');
+        await execAsync(`xdotool key ${names.xdotool}`);
         break;
 
       default:
@@ -5,7 +5,8 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { pressEnter, focusCursor } from './keySimulation';
+import { pressEnter, pressEscape, focusCursor } from './keySimulation';
+import { CreateNewAgentChatResult, CancelChatGenerationResult } from '../shared/commands';
 
 /**
  * Get the current workspace folder name for window targeting
@@ -26,6 +27,22 @@ export interface SendMessageResult {
 export interface SendMessageOptions {
   threadId?: string;
   prependDirective?: boolean;
+  /** Workspace-relative file paths to list as context */
+  files?: string[];
+}
+
+/**
+ * List attached files below the message so the agent reads them first
+ */
+function formatMessageWithFiles(message: string, files?: string[]): string {
+  if (!files || files.length === 0) {
+    return message;
+  }
+
+  return `${message}
+
+Attached files (read these for context):
+${files.map(file => `- ${file}`).join('\n')}`;
 }
 
 /**
@@ -52,10 +69,11 @@ export async function sendMessageToChat(
   outputChannel: vscode.OutputChannel,
   options: SendMessageOptions = {}
 ): Promise<SendMessageResult> {
-  const { threadId, prependDirective = true } = options;
+  const { threadId, prependDirective = true, files } = options;
 
   // Format message with directive if thread ID is provided
-  const formattedMessage = prependDirective ? formatMessageWithDirective(message, threadId) : message;
+  const withFiles = formatMessageWithFiles(message, files);
+  const formattedMessage = prependDirective ? formatMessageWithDirective(withFiles, threadId) : withFiles;
 
   try {
     outputChannel.appendLine(`Sending message to chat ${chatId.substring(0, 8)}...`);
@@ -112,18 +130,104 @@ export async function sendMessageToChat(
   }
 }
 
+/**
+ * Stop the agent running in a specific Cursor chat.
+ * Opens and focuses the chat, then presses Escape - Cursor has no public command
+ * to cancel generation (see docs/cursor-internals.md#cancelling-generation).
+ */
+export async function cancelChatGeneration(
+  chatId: string,
+  outputChannel: vscode.OutputChannel
+): Promise<CancelChatGenerationResult> {
+  try {
+    outputChannel.appendLine(`Cancelling generation in chat ${chatId.substring(0, 8)}...`);
+
+    const workspaceName = getWorkspaceName();
+
+    outputChannel.appendLine('  Focusing Cursor window...');
+    const focusResult = await focusCursor(workspaceName);
+    if (!focusResult.success) {
+      outputChannel.appendLine(`  Warning: Could not focus Cursor: ${focusResult.error}`);
+    }
+    await delay(150);
+
+    outputChannel.appendLine('  Opening composer...');
+    await vscode.commands.executeCommand('composer.openComposer', chatId);
+    await delay(400);
+
+    await vscode.commands.executeCommand('composer.focusComposer');
+    await delay(200);
+
+    outputChannel.appendLine('  Pressing Escape...');
+    const escapeResult = await pressEscape(workspaceName);
+    if (!escapeResult.success) {
+      return {
+        success: false,
+        error: `Failed to press Escape: ${escapeResult.error}`,
+      };
+    }
+
+    outputChannel.appendLine('  Generation cancelled');
+    return { success: true };
+  } catch (error: any) {
+    const errorMsg = error.message || String(error);
+    outputChannel.appendLine(`  Error: ${errorMsg}`);
+    return {
+      success: false,
+      error: errorMsg,
+    };
+  }
+}
+
 function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Create a new agent chat and return its ID.
+ * The new chat is left focused, ready for sendMessageToFocusedChat.
+ */
+export async function createNewAgentChat(
+  outputChannel: vscode.OutputChannel
+): Promise<CreateNewAgentChatResult> {
+  try {
+    outputChannel.appendLine('[CreateNewAgentChat] Creating new agent chat...');
+
+    // Create new agent chat - it will be focused automatically
+    await vscode.commands.executeCommand('composer.newAgentChat');
+
+    // Give it a moment to initialize
+    await delay(500);
+
+    // The new chat is the most recently selected composer
+    let chatId: string | undefined;
+    try {
+      const ids = await vscode.commands.executeCommand<string[]>('composer.getOrderedSelectedComposerIds');
+      chatId = Array.isArray(ids) ? ids[0] : undefined;
+    } catch {
+      // Command may not exist in all Cursor versions
+    }
+
+    outputChannel.appendLine(`[CreateNewAgentChat] New agent chat created and focused (${chatId ?? 'ID unknown'})`);
+    return { success: true, chatId };
+  } catch (error: any) {
+    outputChannel.appendLine(`[CreateNewAgentChat] Error: ${error.message}`);
+    return { success: false, error: error.message };
+  }
+}
+
 /**
  * Send a message to the currently focused composer (no chat ID needed).
  * Used when we just created a new agent chat and it's already focused.
  */
 export async function sendMessageToFocusedChat(
   message: string,
-  outputChannel: vscode.OutputChannel
+  outputChannel: vscode.OutputChannel,
+  options: SendMessageOptions = {}
 ): Promise<SendMessageResult> {
+  const { threadId, files } = options;
+  const formattedMessage = formatMessageWithDirective(formatMessageWithFiles(message, files), threadId);
+
   try {
     outputChannel.appendLine('Sending message to focused chat...');
 
@@ -137,7 +241,7 @@ export async function sendMessageToFocusedChat(
 
     // Paste the message
     outputChannel.appendLine('  Pasting message...');
-    await vscode.env.clipboard.writeText(message);
+    await vscode.env.clipboard.writeText(formattedMessage);
     await vscode.commands.executeCommand('editor.action.clipboardPasteAction');
     await delay(200);
 
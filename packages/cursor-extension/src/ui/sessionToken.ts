@@ -0,0 +1,63 @@
+/**
+ * Session token for authenticating MCP server → HTTP server requests.
+ *
+ * The UI part generates a random token each time the HTTP server starts and
+ * writes it to a file only the current user can read, named after the port.
+ * The MCP server reads the file for the port it discovered and sends the token
+ * as a Bearer token. Other local processes (or web pages) can't call the API.
+ *
+ * NOTE: The MCP server (mcp/server.ts) builds the same path - keep them in sync.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const TOKEN_DIR = path.join(os.homedir(), '.cursor', 'discord-bridge', 'tokens');
+
+export function getTokenFilePath(port: number): string {
+  return path.join(TOKEN_DIR, `${port}.token`);
+}
+
+/**
+ * Generate a new token for a port and write it to a 0600 file in a 0700 directory.
+ */
+export function createSessionToken(port: number): string {
+  const token = crypto.randomBytes(32).toString('hex');
+  const tokenPath = getTokenFilePath(port);
+
+  fs.mkdirSync(TOKEN_DIR, { recursive: true, mode: 0o700 });
+  fs.chmodSync(TOKEN_DIR, 0o700);
+  fs.writeFileSync(tokenPath, token, { mode: 0o600 });
+  // writeFileSync's mode only applies when creating the file
+  fs.chmodSync(tokenPath, 0o600);
+
+  return token;
+}
+
+/**
+ * Remove the token file for a port (on server stop).
+ */
+export function removeSessionToken(port: number): void {
+  try {
+    fs.unlinkSync(getTokenFilePath(port));
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Check an `Authorization: Bearer <token>` header against the expected token
+ * in constant time.
+ */
+export function isAuthorizedHeader(authorization: string | undefined, expectedToken: string): boolean {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  const provided = Buffer.from(match[1]);
+  const expected = Buffer.from(expectedToken);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
@@ -9,7 +9,7 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { ConfigManager } from './configManager';
 import { Commands, GuildInfo, DiscordStatusResult, ChannelInfo, CategoryInfo, PermissionCheckResult } from '../shared/commands';
-import { ThreadCreationNotify, MessagePingMode } from '../shared/types';
+import { ThreadCreationNotify, MessagePingMode, LongResponseMode, TranscriptMirrorMode, AccessPolicy, AccessRight, FileSharingPolicy, RedactionSettings } from '../shared/types';
 
 /** State sent from extension to webview */
 interface WebviewState {
@@ -27,10 +27,18 @@ interface WebviewState {
   inviteUrl: string | null;
   logs: string[];
   threadInviteUserIds: string[];
+  questionEscalationUserIds: string[];
   threadCreationNotify: ThreadCreationNotify;
   messagePingMode: MessagePingMode;
   implicitArchiveCount: number;
   implicitArchiveHours: number;
+  longResponseMode: LongResponseMode;
+  longResponseThreshold: number;
+  longResponseSummaryLines: number;
+  transcriptMirrorMode: TranscriptMirrorMode;
+  accessPolicy: AccessPolicy;
+  fileSharingPolicy: FileSharingPolicy;
+  redaction: RedactionSettings;
 }
 
 export class WebviewPanelManager {
@@ -159,6 +167,11 @@ export class WebviewPanelManager {
         await this.refreshState();
         break;
 
+      case 'saveEscalationUsers':
+        await this.handleSaveEscalationUsers(msg.userIds);
+        await this.refreshState();
+        break;
+
       case 'setThreadCreationNotify':
         await this.configManager.setThreadCreationNotify(msg.mode);
         this.addLog(`Thread creation notify set to: ${msg.mode}`);
@@ -183,6 +196,82 @@ export class WebviewPanelManager {
         await this.refreshState();
         break;
 
+      case 'setLongResponseMode':
+        await this.configManager.setLongResponseMode(msg.mode);
+        this.addLog(`Long response mode set to: ${msg.mode}`);
+        await this.refreshState();
+        break;
+
+      case 'setLongResponseThreshold':
+        await this.configManager.setLongResponseThreshold(msg.threshold);
+        this.addLog(`Long response threshold set to: ${msg.threshold}`);
+        await this.refreshState();
+        break;
+
+      case 'setLongResponseSummaryLines':
+        await this.configManager.setLongResponseSummaryLines(msg.lines);
+        this.addLog(`Long response summary lines set to: ${msg.lines}`);
+        await this.refreshState();
+        break;
+
+      case 'setTranscriptMirrorMode':
+        await this.configManager.setTranscriptMirrorMode(msg.mode);
+        this.addLog(`Transcript mirror mode set to: ${msg.mode}`);
+        await this.refreshState();
+        break;
+
+      case 'setAccessControlEnabled':
+        await this.configManager.setAccessControlEnabled(msg.enabled);
+        this.addLog(`Access control ${msg.enabled ? 'enabled' : 'disabled'}`);
+        await this.refreshState();
+        break;
+
+      case 'saveAccessRule':
+        await this.handleSaveAccessRule(msg.right, msg.userIds, msg.roleIds);
+        await this.refreshState();
+        break;
+
+      case 'saveFileSharingAllowedRoots':
+        await this.configManager.updateFileSharingPolicy({ allowedRoots: this.parseList(msg.roots) });
+        this.addLog('File sharing allowed folders saved');
+        await this.refreshState();
+        break;
+
+      case 'saveFileSharingDeniedPatterns':
+        await this.configManager.updateFileSharingPolicy({ deniedPatterns: this.parseList(msg.patterns) });
+        this.addLog('File sharing blocked patterns saved');
+        await this.refreshState();
+        break;
+
+      case 'setFileSharingMaxSizeMb':
+        await this.configManager.updateFileSharingPolicy({ maxFileSizeMb: msg.sizeMb });
+        this.addLog(`File sharing max size set to: ${msg.sizeMb} MB`);
+        await this.refreshState();
+        break;
+
+      case 'setFileSharingConfirmOutsideRoots':
+        await this.configManager.updateFileSharingPolicy({ confirmOutsideRoots: msg.enabled });
+        this.addLog(`Files outside allowed folders: ${msg.enabled ? 'ask' : 'reject'}`);
+        await this.refreshState();
+        break;
+
+      case 'setRedactionEnabled':
+        await this.configManager.updateRedactionSettings({ enabled: msg.enabled });
+        this.addLog(`Secret redaction ${msg.enabled ? 'enabled' : 'disabled'}`);
+        await this.refreshState();
+        break;
+
+      case 'setRedactionHighEntropy':
+        await this.configManager.updateRedactionSettings({ detectHighEntropy: msg.enabled });
+        this.addLog(`High-entropy string detection ${msg.enabled ? 'enabled' : 'disabled'}`);
+        await this.refreshState();
+        break;
+
+      case 'saveRedactionPatterns':
+        await this.handleSaveRedactionPatterns(msg.patterns);
+        await this.refreshState();
+        break;
+
       case 'reconnect':
         this.addLog('Reconnecting to Discord...');
         vscode.commands.executeCommand(Commands.RECONNECT);
@@ -273,6 +362,56 @@ export class WebviewPanelManager {
     this.addLog(`Thread invite users saved: ${userIds.length} user(s)`);
   }
 
+  private async handleSaveEscalationUsers(userIdsInput: string): Promise<void> {
+    const userIds = this.parseList(userIdsInput);
+    await this.configManager.setQuestionEscalationUserIds(userIds);
+    this.addLog(`Question escalation users saved: ${userIds.length} user(s)`);
+  }
+
+  /**
+   * Parse a comma/newline separated list from a textarea.
+   */
+  private parseList(input: string): string[] {
+    return input
+      .split(/[,\n]/)
+      .map((item: string) => item.trim())
+      .filter((item: string) => item.length > 0);
+  }
+
+  private async handleSaveAccessRule(right: AccessRight, userIdsInput: string, roleIdsInput: string): Promise<void> {
+    const rule = { userIds: this.parseList(userIdsInput), roleIds: this.parseList(roleIdsInput) };
+    await this.configManager.setAccessRule(right, rule);
+    this.addLog(`Access rule for ${right} saved: ${rule.userIds.length} user(s), ${rule.roleIds.length} role(s)`);
+  }
+
+  /**
+   * Save custom redaction regexes (one per line - commas are valid in a regex).
+   * Invalid patterns are rejected so a typo can't silently disable masking.
+   */
+  private async handleSaveRedactionPatterns(input: string): Promise<void> {
+    const patterns = input
+      .split('\n')
+      .map((item: string) => item.trim())
+      .filter((item: string) => item.length > 0);
+
+    const invalid = patterns.filter(pattern => {
+      try {
+        new RegExp(pattern);
+        return false;
+      } catch {
+        return true;
+      }
+    });
+    if (invalid.length > 0) {
+      vscode.window.showErrorMessage(`Invalid regular expression: ${invalid.join(', ')}`);
+      this.addLog(`Redaction patterns not saved: ${invalid.length} invalid pattern(s)`);
+      return;
+    }
+
+    await this.configManager.updateRedactionSettings({ customPatterns: patterns });
+    this.addLog(`Custom redaction patterns saved: ${patterns.length}`);
+  }
+
   private async createProjectChannel(channelName: string, categoryId?: string): Promise<void> {
     const global = this.configManager.getGlobalConfig();
     if (!global?.guildId) {
@@ -374,10 +513,18 @@ export class WebviewPanelManager {
       inviteUrl,
       logs: this.logs,
       threadInviteUserIds: global?.threadInviteUserIds || [],
+      questionEscalationUserIds: global?.questionEscalationUserIds || [],
       threadCreationNotify: global?.threadCreationNotify || 'silent',
       messagePingMode: global?.messagePingMode || 'never',
       implicitArchiveCount: global?.implicitArchiveCount ?? 10,
       implicitArchiveHours: global?.implicitArchiveHours ?? 48,
+      longResponseMode: global?.longResponseMode || 'split',
+      longResponseThreshold: global?.longResponseThreshold ?? 4000,
+      longResponseSummaryLines: global?.longResponseSummaryLines ?? 10,
+      transcriptMirrorMode: this.configManager.getTranscriptMirrorMode(),
+      accessPolicy: this.configManager.getAccessPolicy(),
+      fileSharingPolicy: this.configManager.getFileSharingPolicy(),
+      redaction: this.configManager.getRedactionSettings(),
     };
 
     this.currentState = state;
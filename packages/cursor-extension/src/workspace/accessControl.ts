@@ -0,0 +1,81 @@
+/**
+ * Access Control
+ * Decides which Discord users may drive Cursor agents (send prompts, answer
+ * questions, create agents, approve gated actions). Anything typed into a mapped thread ends up as a
+ * prompt on the developer's machine, so this is enforced before any of it is
+ * forwarded.
+ */
+
+import { GuildMember, APIInteractionGuildMember } from 'discord.js';
+import { AccessPolicy, AccessRight } from '../shared/types';
+
+const RIGHT_DESCRIPTIONS: Record<AccessRight, string> = {
+  prompt: 'send prompts to this agent',
+  answer: "answer this agent's questions",
+  createAgent: 'create agent chats',
+  approve: 'approve actions for this agent',
+};
+
+/**
+ * Get the role IDs of a guild member. Interaction members from the API carry
+ * a plain array of IDs; cached members carry a role manager.
+ */
+export function getMemberRoleIds(member: GuildMember | APIInteractionGuildMember | null | undefined): string[] {
+  if (!member) {
+    return [];
+  }
+  if (Array.isArray(member.roles)) {
+    return member.roles;
+  }
+  return [...member.roles.cache.keys()];
+}
+
+/**
+ * Check whether a user (with the given roles) has an access right.
+ * A disabled or missing policy allows everything.
+ */
+export function isAllowed(
+  policy: AccessPolicy | undefined,
+  right: AccessRight,
+  userId: string,
+  roleIds: string[]
+): boolean {
+  if (!policy?.enabled) {
+    return true;
+  }
+
+  const rule = policy.rules[right];
+  if (!rule) {
+    return false;
+  }
+
+  return rule.userIds.includes(userId) || roleIds.some(roleId => rule.roleIds.includes(roleId));
+}
+
+/**
+ * Check whether a user may approve gated agent actions (request_approval). Unlike the
+ * other rights, this needs an explicit rule even while the policy is disabled: a
+ * sign-off from whoever happens to be in the channel isn't one.
+ */
+export function isApprover(policy: AccessPolicy | undefined, userId: string, roleIds: string[]): boolean {
+  const rule = policy?.rules.approve;
+  if (!rule) {
+    return false;
+  }
+  return rule.userIds.includes(userId) || roleIds.some(roleId => rule.roleIds.includes(roleId));
+}
+
+/**
+ * Whether anyone could approve a request at all.
+ */
+export function hasApprovers(policy: AccessPolicy | undefined): boolean {
+  const rule = policy?.rules.approve;
+  return !!rule && (rule.userIds.length > 0 || rule.roleIds.length > 0);
+}
+
+/**
+ * Message shown (ephemerally) to users who lack a right.
+ */
+export function formatAccessDenied(right: AccessRight): string {
+  return `🚫 You don't have permission to ${RIGHT_DESCRIPTIONS[right]}. Ask the developer to add you in the Discord Bridge settings.`;
+}
@@ -0,0 +1,58 @@
+/**
+ * Approval Log
+ * Append-only audit trail of request_approval decisions, one JSON object per line.
+ * It lives in the extension's global storage, not the workspace: the agent being
+ * gated can edit workspace files, so it could forge or delete its own records.
+ * Runs in the Workspace part.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApprovalDecision } from '../shared/commands';
+
+const APPROVAL_LOG_FILE = 'discord-approvals.jsonl';
+
+export interface ApprovalRecord {
+  /** Discord message ID of the approval request */
+  id: string;
+  /** Workspace folder the request came from (the log is shared by all workspaces) */
+  workspace?: string;
+  threadId: string;
+  /** Cursor chat the request came from, if the thread is mapped */
+  chatId?: string;
+  action: string;
+  details?: string;
+  preview?: string;
+  requestedAt: string;
+  decidedAt: string;
+  decision: ApprovalDecision;
+  decidedBy?: { id: string; username: string };
+  reason?: string;
+}
+
+/**
+ * Path of the approval log in the extension's global storage directory.
+ */
+export function getApprovalLogPath(context: vscode.ExtensionContext): string {
+  return path.join(context.globalStorageUri.fsPath, APPROVAL_LOG_FILE);
+}
+
+/**
+ * Append a decision to the approval log. Failures are logged, not thrown: the
+ * decision itself has already been made and shown in Discord.
+ */
+export async function appendApprovalRecord(
+  record: ApprovalRecord,
+  context: vscode.ExtensionContext,
+  outputChannel: vscode.OutputChannel
+): Promise<void> {
+  const filePath = getApprovalLogPath(context);
+  try {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.appendFile(filePath, JSON.stringify(record) + '\n', 'utf8');
+    outputChannel.appendLine(`[Approvals] Logged ${record.decision} for "${record.action}" → ${filePath}`);
+  } catch (error: any) {
+    outputChannel.appendLine(`[Approvals] Failed to write approval log: ${error.message}`);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Attachment Inbox
+ * Downloads files attached to Discord messages into a workspace-local inbox
+ * (.cursor/discord-inbox/<threadId>/) so the Cursor agent can open them with
+ * its normal file tools. Runs in the Workspace part, next to the code.
+ */
+
+import * as vscode from 'vscode';
+import { Message } from 'discord.js';
+import { DownloadedAttachment } from '../shared/types';
+
+const INBOX_DIR = '.cursor/discord-inbox';
+
+// Anything bigger than this is skipped (Discord Nitro uploads can be 500MB)
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+// Extensions treated as images when Discord doesn't report a content type
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp'];
+
+/**
+ * Make an attachment name safe to use as a file name on every platform.
+ */
+function sanitizeFileName(name: string): string {
+  const cleaned = name.replace(/[^a-zA-Z0-9._-]/g, '_').replace(/^\.+/, '');
+  return cleaned.substring(0, 100) || 'attachment';
+}
+
+function isImage(name: string, contentType?: string): boolean {
+  if (contentType) {
+    return contentType.startsWith('image/');
+  }
+  const lower = name.toLowerCase();
+  return IMAGE_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Ensure the inbox root exists and contains a .gitignore so downloaded
+ * attachments never end up committed to the user's repository.
+ */
+async function ensureInboxRoot(workspaceRoot: vscode.Uri): Promise<void> {
+  const inboxRoot = vscode.Uri.joinPath(workspaceRoot, INBOX_DIR);
+  const gitignore = vscode.Uri.joinPath(inboxRoot, '.gitignore');
+
+  try {
+    await vscode.workspace.fs.stat(gitignore);
+  } catch {
+    await vscode.workspace.fs.createDirectory(inboxRoot);
+    await vscode.workspace.fs.writeFile(gitignore, new TextEncoder().encode('*\n'));
+  }
+}
+
+/**
+ * Download all attachments of a Discord message into the inbox folder for `folderKey`
+ * (usually the thread ID). Failures are logged and reported per attachment so one
+ * bad file doesn't prevent the message text from being forwarded.
+ */
+export async function downloadMessageAttachments(
+  message: Message,
+  folderKey: string,
+  outputChannel: vscode.OutputChannel
+): Promise<DownloadedAttachment[]> {
+  if (message.attachments.size === 0) {
+    return [];
+  }
+
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  if (!workspaceFolders || workspaceFolders.length === 0) {
+    outputChannel.appendLine('[Attachments] No workspace folder found, cannot save attachments');
+    return [];
+  }
+
+  const workspaceRoot = workspaceFolders[0].uri;
+  const folderPath = `${INBOX_DIR}/${folderKey}`;
+  const folderUri = vscode.Uri.joinPath(workspaceRoot, folderPath);
+
+  try {
+    await ensureInboxRoot(workspaceRoot);
+    await vscode.workspace.fs.createDirectory(folderUri);
+  } catch (error: any) {
+    outputChannel.appendLine(`[Attachments] Failed to create inbox folder: ${error.message}`);
+    return [];
+  }
+
+  const results: DownloadedAttachment[] = [];
+
+  for (const attachment of message.attachments.values()) {
+    const contentType = attachment.contentType ?? undefined;
+    const info: DownloadedAttachment = {
+      name: attachment.name,
+      contentType,
+      size: attachment.size,
+      url: attachment.url,
+      isImage: isImage(attachment.name, contentType),
+    };
+
+    if (attachment.size > MAX_ATTACHMENT_BYTES) {
+      info.error = `too large (${formatSize(attachment.size)})`;
+      outputChannel.appendLine(`[Attachments] Skipping ${attachment.name}: ${info.error}`);
+      results.push(info);
+      continue;
+    }
+
+    try {
+      const response = await fetch(attachment.url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = new Uint8Array(await response.arrayBuffer());
+
+      // Prefix with the message ID so two messages can't overwrite each other's files
+      const fileName = `${message.id}-${sanitizeFileName(attachment.name)}`;
+      const fileUri = vscode.Uri.joinPath(folderUri, fileName);
+      await vscode.workspace.fs.writeFile(fileUri, data);
+
+      info.localPath = fileUri.fsPath;
+      info.relativePath = `${folderPath}/${fileName}`;
+      outputChannel.appendLine(`[Attachments] Saved ${attachment.name} → ${info.relativePath} (${formatSize(data.length)})`);
+    } catch (error: any) {
+      info.error = error.message;
+      outputChannel.appendLine(`[Attachments] Failed to download ${attachment.name}: ${error.message}`);
+    }
+
+    results.push(info);
+  }
+
+  return results;
+}
+
+/**
+ * Format downloaded attachments as a block of text to append to the prompt,
+ * so the agent knows where to find them.
+ */
+export function formatAttachmentsForPrompt(attachments: DownloadedAttachment[]): string {
+  if (attachments.length === 0) {
+    return '';
+  }
+
+  const lines = attachments.map(a => {
+    if (!a.relativePath) {
+      return `- ${a.name}: could not be downloaded (${a.error || 'unknown error'}) - ${a.url}`;
+    }
+    const kind = a.isImage ? 'image - open it to view' : (a.contentType || 'file');
+    return `- ${a.relativePath} (${kind}, ${formatSize(a.size)})`;
+  });
+
+  return `📎 Attachments from Discord (saved in the workspace, open them with your file tools):\n${lines.join('\n')}`;
+}
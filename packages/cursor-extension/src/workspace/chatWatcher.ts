@@ -5,6 +5,7 @@
 
 import * as vscode from 'vscode';
 import { DiscordClientManager } from './discordClient';
+import { StorageWatcher } from './storageWatcher';
 import { Commands } from '../shared/commands';
 import { getChatName, getChatMetadata, getArchivedChatIds, getAllChatIds, getActiveChatsRankedByRecency } from './cursorStorage';
 
@@ -13,31 +14,32 @@ export interface ChatWatcherEvents {
   onChatRemoved: (chatId: string) => void;
 }
 
-// How often to check for Discord auto-archived threads (in poll cycles)
-// Since we poll every second, 30 = check every 30 seconds
-const DISCORD_ARCHIVE_CHECK_INTERVAL = 30;
+// How often to check for Discord auto-archived threads
+const DISCORD_ARCHIVE_CHECK_INTERVAL_MS = 30 * 1000;
 
 export class ChatWatcher {
   private allTimeSeenIds: Set<string> = new Set();
   private archivedChatIds: Set<string> = new Set(); // Chats we've already processed as archived (via DB isArchived flag)
   private pendingComposerId: string | null = null; // ONE unnamed composer waiting for a name
-  private watcherInterval: NodeJS.Timeout | null = null;
-  private pollCounter: number = 0; // Counter for less frequent checks
+  private subscription: vscode.Disposable | null = null; // StorageWatcher subscription while running
+  private lastDiscordArchiveCheck: number = 0; // For the less frequent Discord auto-archive check
   private installationTimestamp: number = 0; // When the extension was first installed for this workspace
-  private isPolling: boolean = false; // Guard against overlapping poll iterations
   private context: vscode.ExtensionContext;
   private discordClient: DiscordClientManager;
+  private storageWatcher: StorageWatcher;
   private events: ChatWatcherEvents;
   private outputChannel: vscode.OutputChannel;
 
   constructor(
     context: vscode.ExtensionContext,
     discordClient: DiscordClientManager,
+    storageWatcher: StorageWatcher,
     events: ChatWatcherEvents,
     outputChannel: vscode.OutputChannel
   ) {
     this.context = context;
     this.discordClient = discordClient;
+    this.storageWatcher = storageWatcher;
     this.events = events;
     this.outputChannel = outputChannel;
     this.loadPersistedIds();
@@ -69,7 +71,7 @@ export class ChatWatcher {
   }
 
   public async start(): Promise<void> {
-    if (this.watcherInterval) {
+    if (this.subscription) {
       this.outputChannel.appendLine('Watcher already running');
       return;
     }
@@ -95,162 +97,164 @@ export class ChatWatcher {
     // Notify via log
     vscode.commands.executeCommand(Commands.ADD_LOG, 'Chat watcher started');
 
-    // Poll every second
-    this.watcherInterval = setInterval(async () => {
-      // Guard against overlapping poll iterations
-      // Each poll can take >1s due to DB queries and Discord API calls
-      if (this.isPolling) {
-        return;
-      }
-      this.isPolling = true;
+    // Check on every storage change (and the storage watcher's fallback poll)
+    this.subscription = this.storageWatcher.subscribe(() => this.check());
+    this.storageWatcher.trigger('chat watcher started');
+
+    vscode.window.showInformationMessage('Discord Bridge: Chat watcher started');
+  }
 
+  /**
+   * Detect new chats (creating their threads once named) and chats archived or unarchived in Cursor.
+   * Runs on each StorageWatcher tick (ticks never overlap).
+   */
+  private async check(): Promise<void> {
+    try {
+      // Try to get selected composer IDs from Cursor's internal command
+      // This updates immediately when a new chat is created (before DB flush)
+      let selectedIds: string[] = [];
       try {
-        // Try to get selected composer IDs from Cursor's internal command
-        // This updates immediately when a new chat is created (before DB flush)
-        let selectedIds: string[] = [];
-        try {
-          const result = await vscode.commands.executeCommand<string[]>('composer.getOrderedSelectedComposerIds');
-          if (Array.isArray(result)) {
-            selectedIds = result;
-          }
-        } catch {
-          // Command may not exist in all Cursor versions
+        const result = await vscode.commands.executeCommand<string[]>('composer.getOrderedSelectedComposerIds');
+        if (Array.isArray(result)) {
+          selectedIds = result;
         }
+      } catch {
+        // Command may not exist in all Cursor versions
+      }
 
-        // Check selectedIds for new chats FIRST (these update immediately)
-        for (const id of selectedIds) {
-          if (!this.allTimeSeenIds.has(id)) {
-            // New chat detected via selectedComposerIds (immediate detection!)
-            this.outputChannel.appendLine(`[NEW CHAT via selectedIds] ${id}`);
-            this.allTimeSeenIds.add(id);
-            this.persistIds();
-
-            // Check if it has a name yet (probably not, since DB hasn't flushed)
-            const chatName = await getChatName(id, this.outputChannel);
-            if (chatName) {
-              this.outputChannel.appendLine(`[NEW CHAT] Has name "${chatName}", creating thread`);
-              await this.createThreadForChat(id, chatName);
-            } else {
-              // No name yet - store as pending
-              if (this.pendingComposerId && this.pendingComposerId !== id) {
-                this.outputChannel.appendLine(`[PENDING] Replacing pending composer ${this.pendingComposerId} with ${id}`);
-              }
-              this.pendingComposerId = id;
-              this.outputChannel.appendLine(`[PENDING] Composer ${id} (from selectedIds) waiting for name`);
+      // Check selectedIds for new chats FIRST (these update immediately)
+      for (const id of selectedIds) {
+        if (!this.allTimeSeenIds.has(id)) {
+          // New chat detected via selectedComposerIds (immediate detection!)
+          this.outputChannel.appendLine(`[NEW CHAT via selectedIds] ${id}`);
+          this.allTimeSeenIds.add(id);
+          this.persistIds();
+
+          // Check if it has a name yet (probably not, since DB hasn't flushed)
+          const chatName = await getChatName(id, this.outputChannel);
+          if (chatName) {
+            this.outputChannel.appendLine(`[NEW CHAT] Has name "${chatName}", creating thread`);
+            await this.createThreadForChat(id, chatName);
+          } else {
+            // No name yet - store as pending
+            if (this.pendingComposerId && this.pendingComposerId !== id) {
+              this.outputChannel.appendLine(`[PENDING] Replacing pending composer ${this.pendingComposerId} with ${id}`);
             }
+            this.pendingComposerId = id;
+            this.outputChannel.appendLine(`[PENDING] Composer ${id} (from selectedIds) waiting for name`);
           }
         }
+      }
 
-        // Get all chat IDs from database (single source of truth)
-        const allDbChatIds = await getAllChatIds(this.outputChannel);
-
-        // Check for new chats (fallback - in case selectedIds didn't catch them)
-        for (const id of allDbChatIds) {
-          if (!this.allTimeSeenIds.has(id)) {
-            // Truly new chat detected!
-            this.outputChannel.appendLine(`[NEW CHAT] ${id}`);
-            this.allTimeSeenIds.add(id);
-            this.persistIds();
-
-            // Check if it has a name yet
-            const chatName = await getChatName(id, this.outputChannel);
-            if (chatName) {
-              // Has a name - create thread immediately
-              this.outputChannel.appendLine(`[NEW CHAT] Has name "${chatName}", creating thread`);
-              await this.createThreadForChat(id, chatName);
-            } else {
-              // No name yet - store as pending (only keep ONE)
-              if (this.pendingComposerId && this.pendingComposerId !== id) {
-                this.outputChannel.appendLine(`[PENDING] Replacing pending composer ${this.pendingComposerId} with ${id}`);
-              }
-              this.pendingComposerId = id;
-              this.outputChannel.appendLine(`[PENDING] Composer ${id} waiting for name before thread creation`);
+      // Get all chat IDs from database (single source of truth)
+      const allDbChatIds = await getAllChatIds(this.outputChannel);
+
+      // Check for new chats (fallback - in case selectedIds didn't catch them)
+      for (const id of allDbChatIds) {
+        if (!this.allTimeSeenIds.has(id)) {
+          // Truly new chat detected!
+          this.outputChannel.appendLine(`[NEW CHAT] ${id}`);
+          this.allTimeSeenIds.add(id);
+          this.persistIds();
+
+          // Check if it has a name yet
+          const chatName = await getChatName(id, this.outputChannel);
+          if (chatName) {
+            // Has a name - create thread immediately
+            this.outputChannel.appendLine(`[NEW CHAT] Has name "${chatName}", creating thread`);
+            await this.createThreadForChat(id, chatName);
+          } else {
+            // No name yet - store as pending (only keep ONE)
+            if (this.pendingComposerId && this.pendingComposerId !== id) {
+              this.outputChannel.appendLine(`[PENDING] Replacing pending composer ${this.pendingComposerId} with ${id}`);
             }
+            this.pendingComposerId = id;
+            this.outputChannel.appendLine(`[PENDING] Composer ${id} waiting for name before thread creation`);
           }
         }
+      }
 
-        // Check if pending composer now has a name
-        if (this.pendingComposerId) {
-          const pendingName = await getChatName(this.pendingComposerId, this.outputChannel);
-          if (pendingName) {
-            this.outputChannel.appendLine(`[PENDING] Composer ${this.pendingComposerId} now has name "${pendingName}", creating thread`);
-            await this.createThreadForChat(this.pendingComposerId, pendingName);
-            this.pendingComposerId = null;
-          }
+      // Check if pending composer now has a name
+      if (this.pendingComposerId) {
+        const pendingName = await getChatName(this.pendingComposerId, this.outputChannel);
+        if (pendingName) {
+          this.outputChannel.appendLine(`[PENDING] Composer ${this.pendingComposerId} now has name "${pendingName}", creating thread`);
+          await this.createThreadForChat(this.pendingComposerId, pendingName);
+          this.pendingComposerId = null;
         }
+      }
 
-        // Check for archived chats directly from database
-        // NOTE: We ONLY use the database isArchived flag now. The old "removed from visible list"
-        // method was buggy because getOrderedSelectedComposerIds only returns currently SELECTED
-        // composers, not all open ones. When clicking through chats, this caused false archiving.
-        const dbArchivedIds = await getArchivedChatIds();
-        for (const id of dbArchivedIds) {
-          if (this.allTimeSeenIds.has(id) && !this.archivedChatIds.has(id)) {
-            // Chat is archived in DB but we haven't processed it yet
-            this.outputChannel.appendLine(`[CHAT ARCHIVED IN DB] ${id}`);
-            await this.archiveThreadForChat(id);
-            this.archivedChatIds.add(id);
-            this.persistIds();
-            this.events.onChatRemoved(id);
-          }
+      // Check for archived chats directly from database
+      // NOTE: We ONLY use the database isArchived flag now. The old "removed from visible list"
+      // method was buggy because getOrderedSelectedComposerIds only returns currently SELECTED
+      // composers, not all open ones. When clicking through chats, this caused false archiving.
+      const dbArchivedIds = await getArchivedChatIds();
+      for (const id of dbArchivedIds) {
+        if (this.allTimeSeenIds.has(id) && !this.archivedChatIds.has(id)) {
+          // Chat is archived in DB but we haven't processed it yet
+          this.outputChannel.appendLine(`[CHAT ARCHIVED IN DB] ${id}`);
+          await this.archiveThreadForChat(id);
+          this.archivedChatIds.add(id);
+          this.persistIds();
+          this.events.onChatRemoved(id);
         }
+      }
 
-        // Check for unarchived chats - chats we thought were archived but aren't anymore
-        for (const id of this.archivedChatIds) {
-          if (!dbArchivedIds.has(id)) {
-            // Chat was unarchived in Cursor - reopen the Discord thread
-            this.outputChannel.appendLine(`[CHAT UNARCHIVED IN DB] ${id}`);
-            await this.unarchiveThreadForChat(id);
-            this.archivedChatIds.delete(id);
-            this.persistIds();
-          }
+      // Check for unarchived chats - chats we thought were archived but aren't anymore
+      for (const id of this.archivedChatIds) {
+        if (!dbArchivedIds.has(id)) {
+          // Chat was unarchived in Cursor - reopen the Discord thread
+          this.outputChannel.appendLine(`[CHAT UNARCHIVED IN DB] ${id}`);
+          await this.unarchiveThreadForChat(id);
+          this.archivedChatIds.delete(id);
+          this.persistIds();
         }
+      }
 
-        // Periodically check for Discord auto-archived threads
-        // Discord can auto-archive threads after inactivity, so we reopen them if the Cursor chat is "truly active"
-        // We respect implicit archiving: chats that are old and far down the list stay archived
-        this.pollCounter++;
-        if (this.pollCounter >= DISCORD_ARCHIVE_CHECK_INTERVAL) {
-          this.pollCounter = 0;
-          
-          // Get config for implicit archive thresholds (from UI extension via command)
-          const config = await vscode.commands.executeCommand<{ implicitArchiveCount?: number; implicitArchiveHours?: number }>(Commands.GET_CONFIG);
-          const implicitArchiveCount = config?.implicitArchiveCount ?? 10;
-          const implicitArchiveHours = config?.implicitArchiveHours ?? 48;
-          const implicitArchiveMs = implicitArchiveHours * 60 * 60 * 1000;
-          const now = Date.now();
-
-          // Get active chats ranked by recency
-          const rankedChats = await getActiveChatsRankedByRecency(this.outputChannel);
-          
-          // Only include chats that are "truly active":
-          // - Position < implicitArchiveCount (one of the top N recent chats), OR
-          // - lastUpdatedAt is within implicitArchiveHours
-          const trulyActiveChatIds = new Set<string>();
-          for (const chat of rankedChats) {
-            const isTopN = chat.position < implicitArchiveCount;
-            const isRecentlyUsed = chat.lastUpdatedAt && (now - chat.lastUpdatedAt) < implicitArchiveMs;
-            
-            if (isTopN || isRecentlyUsed) {
-              trulyActiveChatIds.add(chat.chatId);
-            }
-          }
+      // Periodically check for Discord auto-archived threads
+      // Discord can auto-archive threads after inactivity, so we reopen them if the Cursor chat is "truly active"
+      // We respect implicit archiving: chats that are old and far down the list stay archived
+      if (Date.now() - this.lastDiscordArchiveCheck >= DISCORD_ARCHIVE_CHECK_INTERVAL_MS) {
+        this.lastDiscordArchiveCheck = Date.now();
+        
+        // Get config for implicit archive thresholds (from UI extension via command)
+        const config = await vscode.commands.executeCommand<{ implicitArchiveCount?: number; implicitArchiveHours?: number }>(Commands.GET_CONFIG);
+        const implicitArchiveCount = config?.implicitArchiveCount ?? 10;
+        const implicitArchiveHours = config?.implicitArchiveHours ?? 48;
+        const implicitArchiveMs = implicitArchiveHours * 60 * 60 * 1000;
+        const now = Date.now();
+
+        // Get active chats ranked by recency
+        const rankedChats = await getActiveChatsRankedByRecency(this.outputChannel);
+        
+        // Only include chats that are "truly active":
+        // - Position < implicitArchiveCount (one of the top N recent chats), OR
+        // - lastUpdatedAt is within implicitArchiveHours
+        const trulyActiveChatIds = new Set<string>();
+        for (const chat of rankedChats) {
+          const isTopN = chat.position < implicitArchiveCount;
+          const isRecentlyUsed = chat.lastUpdatedAt && (now - chat.lastUpdatedAt) < implicitArchiveMs;
           
-          // Ensure their Discord threads are open
-          const reopened = await this.discordClient.ensureActiveThreadsOpen(trulyActiveChatIds);
-          if (reopened > 0) {
-            this.outputChannel.appendLine(`[DISCORD AUTO-ARCHIVE] Reopened ${reopened} thread(s) (top ${implicitArchiveCount} or active in last ${implicitArchiveHours}h)`);
-            vscode.commands.executeCommand(Commands.ADD_LOG, `Reopened ${reopened} auto-archived thread(s)`);
+          if (isTopN || isRecentlyUsed) {
+            trulyActiveChatIds.add(chat.chatId);
           }
         }
-      } catch (error: any) {
-        this.outputChannel.appendLine(`Watcher error: ${error.message}`);
-      } finally {
-        this.isPolling = false;
+        
+        // Ensure their Discord threads are open
+        const reopened = await this.discordClient.ensureActiveThreadsOpen(trulyActiveChatIds);
+        if (reopened > 0) {
+          this.outputChannel.appendLine(`[DISCORD AUTO-ARCHIVE] Reopened ${reopened} thread(s) (top ${implicitArchiveCount} or active in last ${implicitArchiveHours}h)`);
+          vscode.commands.executeCommand(Commands.ADD_LOG, `Reopened ${reopened} auto-archived thread(s)`);
+        }
       }
-    }, 1000);
+    } catch (error: any) {
+      this.outputChannel.appendLine(`Watcher error: ${error.message}`);
+    }
 
-    vscode.window.showInformationMessage('Discord Bridge: Chat watcher started');
+    // A new chat without a name may get one without any file event we can see
+    if (this.pendingComposerId) {
+      this.storageWatcher.requestFastPoll();
+    }
   }
 
   private async archiveThreadForChat(chatId: string): Promise<void> {
@@ -337,10 +341,49 @@ export class ChatWatcher {
     }
   }
 
+  /**
+   * Connect an existing Cursor chat to Discord (the /open command). Works for chats
+   * from before installation and chats whose thread was lost. With a threadId, the
+   * chat is bound to that thread instead of getting a new one.
+   */
+  public async openChat(chatId: string, threadId?: string): Promise<{ success: boolean; threadId?: string; error?: string }> {
+    const metadata = await getChatMetadata(chatId, this.outputChannel);
+    if (!metadata) {
+      return { success: false, error: 'Chat not found in Cursor' };
+    }
+
+    // Track it like any other chat from now on. An archived chat is recorded as
+    // already processed, so the watcher doesn't immediately archive its thread again.
+    this.allTimeSeenIds.add(chatId);
+    if (metadata.isArchived) {
+      this.archivedChatIds.add(chatId);
+    }
+    this.persistIds();
+
+    if (threadId) {
+      await this.discordClient.bindThreadToChat(chatId, threadId);
+      this.events.onNewChat(chatId, threadId);
+      return { success: true, threadId };
+    }
+
+    // Reuse the existing thread if it's still there (reopening it if archived)
+    const existing = this.discordClient.getChatMappings().get(chatId);
+    if (existing && (await this.discordClient.isThreadArchived(chatId)) !== undefined) {
+      await this.discordClient.clearExplicitArchive(existing.threadId);
+      await this.discordClient.unarchiveThread({ threadId: existing.threadId });
+      return { success: true, threadId: existing.threadId };
+    }
+
+    const newThreadId = await this.createThreadForChat(chatId, metadata.name || `Chat ${chatId.substring(0, 8)}`);
+    return newThreadId
+      ? { success: true, threadId: newThreadId }
+      : { success: false, error: 'Failed to create thread (see logs)' };
+  }
+
   public stop(): void {
-    if (this.watcherInterval) {
-      clearInterval(this.watcherInterval);
-      this.watcherInterval = null;
+    if (this.subscription) {
+      this.subscription.dispose();
+      this.subscription = null;
       this.outputChannel.appendLine('Chat watcher stopped');
       vscode.commands.executeCommand(Commands.ADD_LOG, 'Chat watcher stopped');
       vscode.window.showInformationMessage('Discord Bridge: Chat watcher stopped');
@@ -348,7 +391,7 @@ export class ChatWatcher {
   }
 
   public isRunning(): boolean {
-    return this.watcherInterval !== null;
+    return this.subscription !== null;
   }
 
   public getKnownChatIds(): string[] {
@@ -11,7 +11,7 @@ const RULES_DIR = '.cursor/rules';
 const RULES_FILE = 'discord-bridge.mdc';
 
 // Increment this when RULES_CONTENT changes to trigger updates in existing workspaces
-const RULES_VERSION = '10';
+const RULES_VERSION = '12';
 
 const RULES_CONTENT = `---
 version: ${RULES_VERSION}
@@ -119,13 +119,20 @@ Discord messages have a 2000 character limit. **Do NOT summarize to fit this lim
 **mcp_discord-bridge_get_my_thread_id** - Get your Discord thread ID (call ONCE at start, NEVER again!)
 **mcp_discord-bridge_forward_user_prompt** - Forward user's Cursor prompt to Discord (when message lacks [Discord Thread:] prefix)
 **mcp_discord-bridge_post_to_thread** - Post your FULL response to Discord (every response)
+**mcp_discord-bridge_edit_message** / **mcp_discord-bridge_append_to_message** - Update a message you posted (keep one progress message current during long tasks)
 **mcp_discord-bridge_send_file_to_thread** - Send screenshots, images, or files to Discord
+**mcp_discord-bridge_send_diff** - Show code changes (a diff, or files diffed against git HEAD) instead of pasting diffs into post_to_thread
 **mcp_discord-bridge_start_typing** - Show typing indicator when starting work (pass thread_id!)
 **mcp_discord-bridge_stop_typing** - Stop typing indicator (auto-stops on post)
-**mcp_discord-bridge_check_discord_messages** - Check if the developer sent new instructions via Discord
+**mcp_discord-bridge_check_discord_messages** - Check if the developer sent new instructions via Discord (poll during long tasks, pass thread_id!)
 **mcp_discord-bridge_create_conversation_thread** - Create a new thread for a different topic
 **mcp_discord-bridge_rename_thread** - Rename the current thread to give it a more meaningful name
 **mcp_discord-bridge_ask_question** - Ask a question with button options (ONLY when most recent message contains \`[Discord Thread:\`)
+**mcp_discord-bridge_request_approval** - Get sign-off BEFORE destructive actions (migrations, force pushes, deleting files) - only proceed if approved
+
+## Destructive Actions Need Approval
+
+Before running database migrations, force-pushing, deleting files or data, or anything else that can't easily be undone, call \`mcp_discord-bridge_request_approval\` with a one-line \`action\` summary and the exact command or diff as \`preview\`. This applies whether the user is in Cursor or Discord. If the result is not "Approved", do NOT perform the action.
 
 ## CRITICAL: Choosing the Correct Ask Question Tool
 
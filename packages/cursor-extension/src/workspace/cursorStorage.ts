@@ -2,16 +2,54 @@
  * Cursor Storage Reader
  * Reads chat/composer data from Cursor's internal SQLite database.
  * 
+ * Databases are opened read-only with better-sqlite3 and kept open between calls.
+ * Reads go through SQLite itself, so changes Cursor has only written to the WAL
+ * (state.vscdb-wal) are visible immediately.
+ * 
+ * better-sqlite3 is a native module and only loads if it was built for Cursor's
+ * Electron (see `rebuild:native`). If it doesn't load, reads fall back to the
+ * sqlite3 command-line tool, and the user is told once.
+ * 
  * WARNING: This reads Cursor's internal storage format which may change without notice.
  */
 
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
+import type Database from 'better-sqlite3';
+
+const execFileAsync = promisify(execFile);
+
+// How long a read waits while Cursor holds a write lock
+const BUSY_TIMEOUT_MS = 1000;
+
+// sqlite3 CLI fallback: long conversations can be several MB
+const CLI_TIMEOUT_MS = 5000;
+const CLI_MAX_BUFFER = 50 * 1024 * 1024;
+
+// Storage keys are built from composer and bubble IDs (UUIDs); anything else is not put into a CLI query
+const STORAGE_KEY_PATTERN = /^[A-Za-z0-9:._-]+$/;
+
+// better-sqlite3, loaded on first read: null if it failed to load (undefined = not tried yet)
+let sqlite: typeof Database | null | undefined;
+
+// Open read-only connections (keyed by database path)
+const connections: Map<string, Database.Database> = new Map();
+
+/** composer.composerData as last read, valid until Cursor commits another change */
+interface ComposerDataSnapshot {
+  dbPath: string;
+  /** PRAGMA data_version when the snapshot was read */
+  dataVersion: number;
+  data: ComposerData | undefined;
+}
 
-const execAsync = promisify(exec);
+let composerDataSnapshot: ComposerDataSnapshot | null = null;
+
+// workspaceStorage folder for the current workspace (found by scanning, so only looked up once)
+let workspaceStorageCache: { workspacePath: string; storagePath: string } | null = null;
 
 interface ComposerHead {
   type: 'head';
@@ -31,6 +69,25 @@ interface ComposerData {
   lastFocusedComposerIds?: string[];
 }
 
+/**
+ * Get Cursor's per-user data directory (~/Library/Application Support/Cursor/User on macOS).
+ */
+function getCursorUserPath(): string | undefined {
+  const homeDir = process.env.HOME || process.env.USERPROFILE;
+  if (!homeDir) {
+    return undefined;
+  }
+
+  // Cursor's storage location varies by platform
+  if (process.platform === 'darwin') {
+    return path.join(homeDir, 'Library', 'Application Support', 'Cursor', 'User');
+  } else if (process.platform === 'win32') {
+    return path.join(homeDir, 'AppData', 'Roaming', 'Cursor', 'User');
+  }
+  // Linux
+  return path.join(homeDir, '.config', 'Cursor', 'User');
+}
+
 /**
  * Get the path to Cursor's workspaceStorage for the current workspace.
  * The workspace ID is derived from VS Code's internal storage mechanisms.
@@ -42,22 +99,12 @@ function getWorkspaceStoragePath(): string | undefined {
   // We can find the workspace-id by looking at the globalStorageUri and deriving from there,
   // or by scanning the workspaceStorage folders for one that matches our workspace.
   
-  const homeDir = process.env.HOME || process.env.USERPROFILE;
-  if (!homeDir) {
+  const userPath = getCursorUserPath();
+  if (!userPath) {
     return undefined;
   }
 
-  // Cursor's storage location varies by platform
-  let cursorStorageBase: string;
-  if (process.platform === 'darwin') {
-    cursorStorageBase = path.join(homeDir, 'Library', 'Application Support', 'Cursor', 'User', 'workspaceStorage');
-  } else if (process.platform === 'win32') {
-    cursorStorageBase = path.join(homeDir, 'AppData', 'Roaming', 'Cursor', 'User', 'workspaceStorage');
-  } else {
-    // Linux
-    cursorStorageBase = path.join(homeDir, '.config', 'Cursor', 'User', 'workspaceStorage');
-  }
-
+  const cursorStorageBase = path.join(userPath, 'workspaceStorage');
   if (!fs.existsSync(cursorStorageBase)) {
     return undefined;
   }
@@ -69,6 +116,9 @@ function getWorkspaceStoragePath(): string | undefined {
   }
 
   const workspacePath = workspaceFolders[0].uri.fsPath;
+  if (workspaceStorageCache?.workspacePath === workspacePath && fs.existsSync(workspaceStorageCache.storagePath)) {
+    return workspaceStorageCache.storagePath;
+  }
   
   // Scan workspaceStorage folders to find the one for this workspace
   const storageFolders = fs.readdirSync(cursorStorageBase);
@@ -82,7 +132,8 @@ function getWorkspaceStoragePath(): string | undefined {
         if (folderUri) {
           const folderPath = folderUri.replace(/^file:\/\//, '');
           if (folderPath === workspacePath) {
-            return path.join(cursorStorageBase, folder);
+            workspaceStorageCache = { workspacePath, storagePath: path.join(cursorStorageBase, folder) };
+            return workspaceStorageCache.storagePath;
           }
         }
       } catch {
@@ -95,12 +146,113 @@ function getWorkspaceStoragePath(): string | undefined {
 }
 
 /**
- * Read composer data from Cursor's SQLite database using the sqlite3 CLI.
+ * Get the path to the current workspace's state.vscdb (what StorageWatcher watches).
+ */
+export function getWorkspaceDbPath(): string | undefined {
+  const storagePath = getWorkspaceStoragePath();
+  return storagePath ? path.join(storagePath, 'state.vscdb') : undefined;
+}
+
+/**
+ * Load better-sqlite3 on first use. A build for a different Node/Electron version
+ * fails to load - then reads use the sqlite3 CLI, and the user gets one error message.
+ */
+function loadSqlite(outputChannel?: vscode.OutputChannel): typeof Database | null {
+  if (sqlite === undefined) {
+    try {
+      sqlite = require('better-sqlite3') as typeof Database;
+    } catch (error: any) {
+      sqlite = null;
+      outputChannel?.appendLine(`[Storage] Failed to load better-sqlite3, falling back to the sqlite3 CLI: ${error.message}`);
+      vscode.window.showErrorMessage(
+        'Discord Bridge: better-sqlite3 could not be loaded (it must be built for Cursor\'s Electron version). ' +
+        'Reading Cursor\'s chat storage with the sqlite3 command-line tool instead - install sqlite3 if chats aren\'t detected.'
+      );
+    }
+  }
+  return sqlite;
+}
+
+/**
+ * Get the read-only connection to a database, opening it on first use.
+ * Returns null if better-sqlite3 isn't available.
+ */
+function getConnection(dbPath: string, outputChannel?: vscode.OutputChannel): Database.Database | null {
+  let db = connections.get(dbPath);
+  if (!db) {
+    const Sqlite = loadSqlite(outputChannel);
+    if (!Sqlite) {
+      return null;
+    }
+    db = new Sqlite(dbPath, { readonly: true, fileMustExist: true, timeout: BUSY_TIMEOUT_MS });
+    connections.set(dbPath, db);
+  }
+  return db;
+}
+
+/**
+ * Run a query with the sqlite3 CLI, returning rows as objects (sqlite3 -json).
+ * Only used when better-sqlite3 isn't available.
+ */
+async function queryWithCli<T>(dbPath: string, query: string): Promise<T[]> {
+  const { stdout } = await execFileAsync('sqlite3', ['-readonly', '-json', dbPath, query], {
+    timeout: CLI_TIMEOUT_MS,
+    maxBuffer: CLI_MAX_BUFFER,
+  });
+  return stdout.trim() ? JSON.parse(stdout) as T[] : [];
+}
+
+/** Quote storage keys for a CLI query; throws on anything that isn't a plain key */
+function quoteStorageKeys(keys: string[]): string {
+  return keys.map(key => {
+    if (!STORAGE_KEY_PATTERN.test(key)) {
+      throw new Error(`Unexpected storage key: ${key}`);
+    }
+    return `'${key}'`;
+  }).join(', ');
+}
+
+/**
+ * Close a connection after an error, so the next read reopens the database
+ * (Cursor may have replaced the file).
+ */
+function resetConnection(dbPath: string): void {
+  const db = connections.get(dbPath);
+  connections.delete(dbPath);
+  if (composerDataSnapshot?.dbPath === dbPath) {
+    composerDataSnapshot = null;
+  }
+  try {
+    db?.close();
+  } catch {
+    // Already closed
+  }
+}
+
+/**
+ * Close all database connections (on deactivation).
+ */
+export function closeCursorStorage(): void {
+  for (const dbPath of [...connections.keys()]) {
+    resetConnection(dbPath);
+  }
+}
+
+/** ItemTable/cursorDiskKV values are usually TEXT, but may be stored as BLOBs */
+function valueToString(value: unknown): string | undefined {
+  if (Buffer.isBuffer(value)) {
+    return value.toString('utf-8');
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Read composer data from Cursor's SQLite database.
+ * The parsed result is cached until Cursor commits a change, so the helpers
+ * below can be called several times per poll without re-reading the database.
  * Returns undefined if the data cannot be read.
  */
 async function readComposerData(outputChannel?: vscode.OutputChannel): Promise<ComposerData | undefined> {
-  const queryStartTime = Date.now();
-  
   const storagePath = getWorkspaceStoragePath();
   if (!storagePath) {
     outputChannel?.appendLine('Could not find Cursor workspace storage path');
@@ -113,27 +265,44 @@ async function readComposerData(outputChannel?: vscode.OutputChannel): Promise<C
     return undefined;
   }
 
+  const queryStartTime = Date.now();
   try {
-    // Use sqlite3 CLI to read the composer data
-    // The value is stored as a JSON string in the ItemTable
-    const query = `SELECT value FROM ItemTable WHERE key = 'composer.composerData';`;
-    const { stdout } = await execAsync(`sqlite3 "${dbPath}" "${query}"`, {
-      timeout: 5000, // 5 second timeout
-    });
+    const db = getConnection(dbPath, outputChannel);
+    if (!db) {
+      // No snapshot cache without data_version - the CLI re-reads every time
+      const [row] = await queryWithCli<{ value: string }>(dbPath, `SELECT value FROM ItemTable WHERE key = ${quoteStorageKeys(['composer.composerData'])};`);
+      outputChannel?.appendLine(`[TIMING] sqlite3 query took ${Date.now() - queryStartTime}ms`);
+      if (!row?.value?.trim()) {
+        outputChannel?.appendLine('No composer data found in database');
+        return undefined;
+      }
+      return JSON.parse(row.value) as ComposerData;
+    }
 
-    const queryDuration = Date.now() - queryStartTime;
-    outputChannel?.appendLine(`[TIMING] sqlite3 query took ${queryDuration}ms`);
+    // data_version changes whenever another connection (Cursor) commits, so an
+    // unchanged value means the cached snapshot is still current
+    const dataVersion = db.pragma('data_version', { simple: true }) as number;
+    if (composerDataSnapshot?.dbPath === dbPath && composerDataSnapshot.dataVersion === dataVersion) {
+      return composerDataSnapshot.data;
+    }
 
-    if (!stdout.trim()) {
+    // The value is stored as a JSON string in the ItemTable
+    const row = db.prepare('SELECT value FROM ItemTable WHERE key = ?').get('composer.composerData') as { value: unknown } | undefined;
+    const json = valueToString(row?.value);
+
+    let data: ComposerData | undefined;
+    if (json?.trim()) {
+      data = JSON.parse(json) as ComposerData;
+    } else {
       outputChannel?.appendLine('No composer data found in database');
-      return undefined;
     }
+    composerDataSnapshot = { dbPath, dataVersion, data };
 
-    const composerData = JSON.parse(stdout.trim()) as ComposerData;
-    return composerData;
+    outputChannel?.appendLine(`[TIMING] Composer data read took ${Date.now() - queryStartTime}ms`);
+    return data;
   } catch (error: any) {
-    const queryDuration = Date.now() - queryStartTime;
-    outputChannel?.appendLine(`[TIMING] sqlite3 query failed after ${queryDuration}ms: ${error.message}`);
+    outputChannel?.appendLine(`[TIMING] Composer data read failed after ${Date.now() - queryStartTime}ms: ${error.message}`);
+    resetConnection(dbPath);
     return undefined;
   }
 }
@@ -299,3 +468,199 @@ export async function getActiveChatsRankedByRecency(
     position: index,
   }));
 }
+
+// ============ Composer Transcripts ============
+
+/** Bubble types in composer conversations */
+const BUBBLE_TYPE_USER = 1;
+const BUBBLE_TYPE_ASSISTANT = 2;
+
+interface BubbleHeader {
+  bubbleId: string;
+  type: number;
+}
+
+interface Bubble {
+  bubbleId: string;
+  type: number;
+  /** Markdown text of the message - empty for tool calls and thinking */
+  text?: string;
+}
+
+interface ComposerConversation {
+  composerId: string;
+  /** 'generating' while the agent is working */
+  status?: string;
+  /** Newer Cursor versions: bubble order only, bubbles stored under bubbleId:{composerId}:{bubbleId} */
+  fullConversationHeadersOnly?: BubbleHeader[];
+  /** Older Cursor versions: the bubbles themselves */
+  conversation?: Bubble[];
+}
+
+export interface TranscriptMessage {
+  bubbleId: string;
+  role: 'user' | 'assistant';
+  /** Message text (empty for tool calls) */
+  text: string;
+}
+
+export interface ChatTranscript {
+  composerId: string;
+  /** True while the agent is still generating a response */
+  isGenerating: boolean;
+  /** ID of the newest bubble in the conversation, including tool calls */
+  lastBubbleId?: string;
+  /** True if the requested afterBubbleId is no longer in the conversation */
+  rewound: boolean;
+  messages: TranscriptMessage[];
+}
+
+/**
+ * Get the path to Cursor's global state database, which holds the conversation
+ * content of every composer (the workspace database only has the composer list).
+ */
+function getGlobalStorageDbPath(): string | undefined {
+  const userPath = getCursorUserPath();
+  if (!userPath) {
+    return undefined;
+  }
+  const dbPath = path.join(userPath, 'globalStorage', 'state.vscdb');
+  return fs.existsSync(dbPath) ? dbPath : undefined;
+}
+
+/**
+ * Read values from the global database's cursorDiskKV table (in no particular order).
+ */
+async function readGlobalValues(keys: string[]): Promise<string[]> {
+  const dbPath = getGlobalStorageDbPath();
+  if (!dbPath) {
+    throw new Error('Cursor global storage database not found');
+  }
+
+  try {
+    const db = getConnection(dbPath);
+    if (!db) {
+      const rows = await queryWithCli<{ value: string }>(dbPath, `SELECT value FROM cursorDiskKV WHERE key IN (${quoteStorageKeys(keys)});`);
+      return rows.map(row => row.value).filter(value => !!value);
+    }
+
+    const placeholders = keys.map(() => '?').join(', ');
+    const rows = db
+      .prepare(`SELECT value FROM cursorDiskKV WHERE key IN (${placeholders})`)
+      .all(...keys) as { value: unknown }[];
+    return rows.map(row => valueToString(row.value)).filter((value): value is string => !!value);
+  } catch (error) {
+    resetConnection(dbPath);
+    throw error;
+  }
+}
+
+async function readComposerConversation(composerId: string): Promise<ComposerConversation | undefined> {
+  const [value] = await readGlobalValues([`composerData:${composerId}`]);
+  return value ? JSON.parse(value) as ComposerConversation : undefined;
+}
+
+function getBubbleOrder(composer: ComposerConversation): BubbleHeader[] {
+  return composer.fullConversationHeadersOnly ?? composer.conversation ?? [];
+}
+
+/**
+ * Get the ID of the newest bubble in a composer's conversation without loading
+ * the bubbles. Returns undefined if the conversation is empty or cannot be read.
+ */
+export async function getLatestBubbleId(
+  composerId: string,
+  outputChannel?: vscode.OutputChannel
+): Promise<string | undefined> {
+  try {
+    const composer = await readComposerConversation(composerId);
+    const order = composer ? getBubbleOrder(composer) : [];
+    return order.length > 0 ? order[order.length - 1].bubbleId : undefined;
+  } catch (error: any) {
+    outputChannel?.appendLine(`[Transcript] Failed to read conversation ${composerId.substring(0, 8)}...: ${error.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Get the ID of the newest user message in a composer's conversation - where the
+ * current turn starts. Returns undefined if there is none or it cannot be read.
+ */
+export async function getLastUserBubbleId(
+  composerId: string,
+  outputChannel?: vscode.OutputChannel
+): Promise<string | undefined> {
+  try {
+    const composer = await readComposerConversation(composerId);
+    const order = composer ? getBubbleOrder(composer) : [];
+    return [...order].reverse().find(header => header.type === BUBBLE_TYPE_USER)?.bubbleId;
+  } catch (error: any) {
+    outputChannel?.appendLine(`[Transcript] Failed to read conversation ${composerId.substring(0, 8)}...: ${error.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Read the conversation of a composer from Cursor's global storage.
+ * Only messages after `afterBubbleId` are loaded. If that bubble is no longer in the
+ * conversation (the user reverted to an earlier message), no messages are returned.
+ * Returns undefined if the data cannot be read.
+ */
+export async function getChatTranscript(
+  composerId: string,
+  afterBubbleId?: string,
+  outputChannel?: vscode.OutputChannel
+): Promise<ChatTranscript | undefined> {
+  try {
+    const composer = await readComposerConversation(composerId);
+    if (!composer) {
+      return undefined;
+    }
+
+    const order = getBubbleOrder(composer);
+    const lastBubbleId = order.length > 0 ? order[order.length - 1].bubbleId : undefined;
+    const start = afterBubbleId ? order.findIndex(h => h.bubbleId === afterBubbleId) + 1 : 0;
+    if (afterBubbleId && start === 0) {
+      return { composerId, isGenerating: composer.status === 'generating', lastBubbleId, rewound: true, messages: [] };
+    }
+
+    let bubbles: Bubble[];
+    if (composer.fullConversationHeadersOnly) {
+      const wanted = order.slice(start);
+
+      const byId = new Map<string, Bubble>();
+      if (wanted.length > 0) {
+        const values = await readGlobalValues(wanted.map(h => `bubbleId:${composerId}:${h.bubbleId}`));
+        for (const value of values) {
+          try {
+            const bubble = JSON.parse(value) as Bubble;
+            byId.set(bubble.bubbleId, bubble);
+          } catch {
+            // Skip bubbles that are mid-write
+          }
+        }
+      }
+      // Keep conversation order; bubbles not flushed yet keep their header (and no text)
+      bubbles = wanted.map(h => byId.get(h.bubbleId) ?? { bubbleId: h.bubbleId, type: h.type });
+    } else {
+      bubbles = (composer.conversation ?? []).slice(start);
+    }
+
+    return {
+      composerId,
+      isGenerating: composer.status === 'generating',
+      lastBubbleId,
+      rewound: false,
+      messages: bubbles
+        .filter(b => b.type === BUBBLE_TYPE_USER || b.type === BUBBLE_TYPE_ASSISTANT)
+        .map(b => ({
+          bubbleId: b.bubbleId,
+          role: b.type === BUBBLE_TYPE_USER ? 'user' : 'assistant',
+          text: (b.text ?? '').trim(),
+        })),
+    };
+  } catch (error: any) {
+    outputChannel?.appendLine(`[Transcript] Failed to read conversation ${composerId.substring(0, 8)}...: ${error.message}`);
+    return undefined;
+  }
+}
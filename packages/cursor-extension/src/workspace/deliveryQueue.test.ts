@@ -0,0 +1,74 @@
+/**
+ * DeliveryQueue + MessageInbox: a message the agent reads with
+ * check_discord_messages while it waits in the queue must not also be
+ * typed into the chat when the queue drains.
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import type * as vscode from 'vscode';
+import type { Message } from 'discord.js';
+import { DeliveryQueue } from './deliveryQueue';
+import { MessageInbox } from './messageInbox';
+
+const THREAD_ID = '100';
+const CHAT_ID = 'chat-1';
+
+const outputChannel = { appendLine: () => {} } as unknown as vscode.OutputChannel;
+
+function fakeContext(): vscode.ExtensionContext {
+  const store = new Map<string, unknown>();
+  return {
+    workspaceState: {
+      get: (key: string, defaultValue?: unknown) => store.has(key) ? store.get(key) : defaultValue,
+      update: async (key: string, value: unknown) => { store.set(key, value); },
+    },
+  } as unknown as vscode.ExtensionContext;
+}
+
+function fakeMessage(id: string): Message {
+  return {
+    id,
+    react: async () => {},
+    reactions: { resolve: () => ({ users: { remove: async () => {} } }) },
+  } as unknown as Message;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+test('messages read from the inbox are not delivered again when the queue drains', async () => {
+  const inbox = new MessageInbox(fakeContext(), outputChannel);
+  const delivered: string[][] = [];
+  let busy = true;
+  const queue = new DeliveryQueue(outputChannel, {
+    isChatBusy: async () => busy,
+    deliver: async (_chatId, _threadId, _prompt, messages) => { delivered.push(messages.map(m => m.id)); },
+  });
+
+  const receive = async (id: string) => {
+    await inbox.add({ messageId: id, threadId: THREAD_ID, author: 'dev', authorId: '1', content: `message ${id}`, attachments: [], timestamp: Date.now(), deliveredToChat: false });
+    queue.enqueue(CHAT_ID, THREAD_ID, { message: fakeMessage(id), prompt: `message ${id}` });
+  };
+
+  // Two messages arrive while the agent is busy and stay queued past the batch window
+  await receive('1');
+  await receive('2');
+  await wait(1700);
+  assert.strictEqual(queue.getQueueLength(CHAT_ID), 2);
+
+  // The agent reads them itself - which is what checkMessages does
+  const read = await inbox.read(THREAD_ID);
+  assert.deepStrictEqual(read.map(m => m.messageId), ['1', '2']);
+  const removed = await queue.remove(CHAT_ID, read.map(m => m.messageId));
+  assert.deepStrictEqual(removed.map(m => m.id), ['1', '2']);
+
+  // A later message is still delivered once the chat goes idle - on its own
+  await receive('3');
+  busy = false;
+  await wait(1700);
+
+  assert.deepStrictEqual(delivered, [['3']]);
+  assert.strictEqual(queue.getQueueLength(CHAT_ID), 0);
+});
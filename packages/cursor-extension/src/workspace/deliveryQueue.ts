@@ -0,0 +1,245 @@
+/**
+ * Delivery Queue
+ * Holds Discord messages for a Cursor chat while its agent is busy, so we don't
+ * paste + press Enter in the middle of a generation (which either interrupts the
+ * agent or gets lost). Quick consecutive messages are batched into one prompt
+ * and delivered once the chat goes idle.
+ *
+ * Queued messages get ⏳ plus a keycap reaction showing their queue position.
+ */
+
+import * as vscode from 'vscode';
+import { Message } from 'discord.js';
+
+// Wait this long after the last message before delivering (batches quick messages)
+const BATCH_WINDOW_MS = 1500;
+
+// How often to re-check a busy chat
+const BUSY_POLL_INTERVAL_MS = 2000;
+
+// Deliver anyway if the chat has looked busy this long (stale busy signal)
+const MAX_QUEUE_WAIT_MS = 10 * 60 * 1000;
+
+const QUEUED_EMOJI = '⏳';
+const POSITION_EMOJIS = ['1️⃣', '2️⃣', '3️⃣', '4️⃣', '5️⃣', '6️⃣', '7️⃣', '8️⃣', '9️⃣', '🔟'];
+
+export interface QueuedMessage {
+  message: Message;
+  /** Prompt text to send to Cursor (message content + attachment info) */
+  prompt: string;
+  /** Set once the queue position reactions have been added */
+  positionEmoji?: string;
+}
+
+export interface DeliveryQueueHandlers {
+  /** Whether the agent in this chat is still working */
+  isChatBusy: (chatId: string, threadId: string) => Promise<boolean>;
+  /** Send a (possibly batched) prompt to the chat */
+  deliver: (chatId: string, threadId: string, prompt: string, messages: Message[]) => Promise<void>;
+}
+
+interface ChatQueue {
+  chatId: string;
+  threadId: string;
+  items: QueuedMessage[];
+  timer: NodeJS.Timeout | null;
+  /** When the oldest queued item was added */
+  firstQueuedAt: number;
+  delivering: boolean;
+}
+
+export class DeliveryQueue {
+  private outputChannel: vscode.OutputChannel;
+  private handlers: DeliveryQueueHandlers;
+  /** Pending messages per chat (keyed by chatId) */
+  private queues: Map<string, ChatQueue> = new Map();
+
+  constructor(outputChannel: vscode.OutputChannel, handlers: DeliveryQueueHandlers) {
+    this.outputChannel = outputChannel;
+    this.handlers = handlers;
+  }
+
+  /**
+   * Queue a message for delivery to a chat.
+   */
+  enqueue(chatId: string, threadId: string, item: QueuedMessage): void {
+    let queue = this.queues.get(chatId);
+    if (!queue) {
+      queue = { chatId, threadId, items: [], timer: null, firstQueuedAt: Date.now(), delivering: false };
+      this.queues.set(chatId, queue);
+    }
+
+    queue.threadId = threadId;
+    queue.items.push(item);
+
+    // Restart the batch window on every new message
+    this.schedule(queue, BATCH_WINDOW_MS);
+  }
+
+  /**
+   * Number of messages waiting for a chat.
+   */
+  getQueueLength(chatId: string): number {
+    return this.queues.get(chatId)?.items.length ?? 0;
+  }
+
+  /**
+   * Drop the pending messages of one chat (e.g. when its agent is stopped) and
+   * remove their queue reactions. A delivery already in progress still finishes.
+   * Returns how many messages were dropped.
+   */
+  async discard(chatId: string): Promise<number> {
+    const queue = this.queues.get(chatId);
+    if (!queue) {
+      return 0;
+    }
+
+    const items = queue.items.splice(0, queue.items.length);
+    if (queue.timer) {
+      clearTimeout(queue.timer);
+      queue.timer = null;
+    }
+    if (!queue.delivering) {
+      this.queues.delete(chatId);
+    }
+
+    await Promise.all(items.map(item => this.clearQueuePosition(item)));
+    if (items.length > 0) {
+      this.outputChannel.appendLine(`[Queue] Discarded ${items.length} queued message(s) for chat ${chatId}`);
+    }
+    return items.length;
+  }
+
+  /**
+   * Take messages out of a chat's queue without delivering them (e.g. the agent
+   * already read them with check_discord_messages), and remove their queue reactions.
+   * Messages whose delivery has already started can't be taken back.
+   * Returns the removed messages.
+   */
+  async remove(chatId: string, messageIds: string[]): Promise<Message[]> {
+    const queue = this.queues.get(chatId);
+    if (!queue) {
+      return [];
+    }
+
+    const removed = queue.items.filter(item => messageIds.includes(item.message.id));
+    queue.items = queue.items.filter(item => !messageIds.includes(item.message.id));
+    if (queue.items.length === 0 && !queue.delivering) {
+      if (queue.timer) {
+        clearTimeout(queue.timer);
+        queue.timer = null;
+      }
+      this.queues.delete(chatId);
+    }
+
+    await Promise.all(removed.map(item => this.clearQueuePosition(item)));
+    if (removed.length > 0) {
+      this.outputChannel.appendLine(`[Queue] Removed ${removed.length} message(s) the agent already read from the queue for chat ${chatId}`);
+    }
+    return removed.map(item => item.message);
+  }
+
+  /**
+   * Drop all pending messages (e.g. on disconnect).
+   */
+  clear(): void {
+    for (const queue of this.queues.values()) {
+      if (queue.timer) {
+        clearTimeout(queue.timer);
+      }
+    }
+    this.queues.clear();
+  }
+
+  private schedule(queue: ChatQueue, delayMs: number): void {
+    if (queue.timer) {
+      clearTimeout(queue.timer);
+    }
+    queue.timer = setTimeout(() => {
+      queue.timer = null;
+      this.process(queue).catch(error => {
+        this.outputChannel.appendLine(`[Queue] Error processing queue for chat ${queue.chatId}: ${error.message}`);
+      });
+    }, delayMs);
+  }
+
+  private async process(queue: ChatQueue): Promise<void> {
+    // A delivery is already in flight - it reschedules when done
+    if (queue.delivering || queue.items.length === 0) {
+      return;
+    }
+
+    const waitedMs = Date.now() - queue.firstQueuedAt;
+    const busy = await this.handlers.isChatBusy(queue.chatId, queue.threadId);
+
+    if (busy && waitedMs < MAX_QUEUE_WAIT_MS) {
+      await this.showQueuePositions(queue);
+      this.schedule(queue, BUSY_POLL_INTERVAL_MS);
+      return;
+    }
+
+    if (busy) {
+      this.outputChannel.appendLine(`[Queue] Chat ${queue.chatId} still busy after ${Math.round(waitedMs / 1000)}s, delivering anyway`);
+    }
+
+    const items = queue.items.splice(0, queue.items.length);
+    queue.delivering = true;
+
+    try {
+      await Promise.all(items.map(item => this.clearQueuePosition(item)));
+
+      const prompt = items.map(item => item.prompt).join('\n\n');
+      if (items.length > 1) {
+        this.outputChannel.appendLine(`[Queue] Delivering ${items.length} batched messages to chat ${queue.chatId}`);
+      }
+
+      await this.handlers.deliver(queue.chatId, queue.threadId, prompt, items.map(item => item.message));
+    } finally {
+      queue.delivering = false;
+    }
+
+    // Messages that arrived during delivery start a new batch
+    if (queue.items.length > 0) {
+      queue.firstQueuedAt = Date.now();
+      this.schedule(queue, BATCH_WINDOW_MS);
+    } else {
+      this.queues.delete(queue.chatId);
+    }
+  }
+
+  /**
+   * React to newly queued messages with ⏳ and their position in the queue.
+   */
+  private async showQueuePositions(queue: ChatQueue): Promise<void> {
+    for (let i = 0; i < queue.items.length; i++) {
+      const item = queue.items[i];
+      if (item.positionEmoji !== undefined) continue;
+
+      item.positionEmoji = POSITION_EMOJIS[i] ?? '';
+      try {
+        await item.message.react(QUEUED_EMOJI);
+        if (item.positionEmoji) {
+          await item.message.react(item.positionEmoji);
+        }
+      } catch (error: any) {
+        this.outputChannel.appendLine(`[Queue] Failed to add queue reaction: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Remove the bot's queue reactions from a message before it's delivered.
+   */
+  private async clearQueuePosition(item: QueuedMessage): Promise<void> {
+    if (item.positionEmoji === undefined) return;
+
+    for (const emoji of [QUEUED_EMOJI, item.positionEmoji]) {
+      if (!emoji) continue;
+      try {
+        await item.message.reactions.resolve(emoji)?.users.remove();
+      } catch (error: any) {
+        this.outputChannel.appendLine(`[Queue] Failed to remove queue reaction: ${error.message}`);
+      }
+    }
+  }
+}
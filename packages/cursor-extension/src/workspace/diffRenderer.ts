@@ -0,0 +1,247 @@
+/**
+ * Diff Renderer
+ * Turns a unified diff (pasted by the agent, or produced with git for a list of
+ * workspace files) into Discord-friendly pieces for send_diff: a per-file summary
+ * for an embed, and the hunks as ```diff blocks that messageSplitter can split
+ * between hunks instead of through them. Runs in the Workspace part, next to the repo.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// git output for a large change set can easily exceed the default 1MB buffer
+const GIT_MAX_BUFFER = 20 * 1024 * 1024;
+
+export type FileDiffStatus = 'added' | 'deleted' | 'modified' | 'renamed';
+
+/** One file's changes in a unified diff */
+export interface FileDiff {
+  path: string;
+  /** Previous path, for renames */
+  oldPath?: string;
+  status: FileDiffStatus;
+  additions: number;
+  deletions: number;
+  /** Hunks including their @@ header line */
+  hunks: string[];
+  binary: boolean;
+}
+
+/**
+ * Path from a ---/+++ line: drops the timestamp some tools append, quotes and the
+ * a/ or b/ prefix. Returns null for /dev/null (file added or deleted).
+ */
+function parseHeaderPath(raw: string): string | null {
+  let value = raw.split('\t')[0].trim();
+  if (value.startsWith('"') && value.endsWith('"')) {
+    value = value.slice(1, -1);
+  }
+  if (value === '/dev/null') {
+    return null;
+  }
+  return value.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse a unified diff (git or plain `diff -u` output) into per-file changes.
+ * Hunk line counts from the @@ headers decide where a hunk ends, so removed lines
+ * that happen to start with "--" aren't mistaken for file headers.
+ */
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let current: FileDiff | null = null;
+  let hunkLines: string[] | null = null;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  const startFile = (): FileDiff => {
+    const file: FileDiff = { path: '', status: 'modified', additions: 0, deletions: 0, hunks: [], binary: false };
+    files.push(file);
+    return file;
+  };
+  const endHunk = () => {
+    if (current && hunkLines) {
+      current.hunks.push(hunkLines.join('\n'));
+    }
+    hunkLines = null;
+  };
+
+  for (const line of diff.replace(/\r\n/g, '\n').split('\n')) {
+    if (current && hunkLines && (oldRemaining > 0 || newRemaining > 0)) {
+      hunkLines.push(line);
+      if (line.startsWith('+')) {
+        current.additions++;
+        newRemaining--;
+      } else if (line.startsWith('-')) {
+        current.deletions++;
+        oldRemaining--;
+      } else if (!line.startsWith('\\')) {
+        oldRemaining--;
+        newRemaining--;
+      }
+      continue;
+    }
+
+    // "\ No newline at end of file" after the last line of a hunk
+    if (hunkLines && line.startsWith('\\')) {
+      hunkLines.push(line);
+      continue;
+    }
+    endHunk();
+
+    if (line.startsWith('diff --git ')) {
+      current = startFile();
+      const match = line.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/);
+      if (match) {
+        current.path = match[2];
+      }
+      continue;
+    }
+
+    if (line.startsWith('--- ')) {
+      // Plain diffs have no "diff --git" line: a new ---/+++ pair starts the next file
+      if (!current || current.hunks.length > 0 || current.binary) {
+        current = startFile();
+      }
+      const oldPath = parseHeaderPath(line.substring(4));
+      if (oldPath === null) {
+        current.status = 'added';
+      } else {
+        current.oldPath = oldPath;
+      }
+      continue;
+    }
+
+    if (line.startsWith('+++ ')) {
+      if (!current) {
+        current = startFile();
+      }
+      const newPath = parseHeaderPath(line.substring(4));
+      if (newPath === null) {
+        current.status = 'deleted';
+      } else {
+        current.path = newPath;
+      }
+      continue;
+    }
+
+    const hunkHeader = line.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+    if (hunkHeader && current) {
+      oldRemaining = hunkHeader[1] === undefined ? 1 : parseInt(hunkHeader[1], 10);
+      newRemaining = hunkHeader[2] === undefined ? 1 : parseInt(hunkHeader[2], 10);
+      hunkLines = [line];
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (line.startsWith('new file mode')) {
+      current.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      current.status = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      current.status = 'renamed';
+      current.oldPath = line.substring('rename from '.length);
+    } else if (line.startsWith('rename to ')) {
+      current.path = line.substring('rename to '.length);
+    } else if (line.startsWith('Binary files ') || line.startsWith('GIT binary patch')) {
+      current.binary = true;
+    }
+  }
+  endHunk();
+
+  for (const file of files) {
+    if (!file.path) {
+      file.path = file.oldPath || 'unknown';
+    }
+    // Plain diffs only show a rename through differing ---/+++ paths
+    if (file.status === 'modified' && file.oldPath && file.oldPath !== file.path) {
+      file.status = 'renamed';
+    }
+  }
+
+  return files.filter(file => file.hunks.length > 0 || file.binary || file.status !== 'modified');
+}
+
+/**
+ * Diff workspace files against git HEAD. Untracked files are shown as added.
+ * Paths may be absolute or relative to the first workspace folder, but must be inside it
+ * (and not the folder itself).
+ */
+export async function diffFilesAgainstHead(files: string[]): Promise<string> {
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  if (!workspaceFolders || workspaceFolders.length === 0) {
+    throw new Error('No workspace folder open');
+  }
+  const root = workspaceFolders[0].uri.fsPath;
+
+  const relativePaths = files.map(file => {
+    const relative = path.relative(root, path.resolve(root, file));
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`${file} is outside the workspace`);
+    }
+    if (relative === '') {
+      throw new Error(`${file} is the whole workspace - list the files or folders to diff`);
+    }
+    return relative.split(path.sep).join('/');
+  });
+
+  const git = (args: string[]) => execFileAsync('git', args, { cwd: root, maxBuffer: GIT_MAX_BUFFER });
+
+  const tracked = await git(['diff', 'HEAD', '--no-color', '--no-ext-diff', '--', ...relativePaths]);
+  const untracked = await git(['ls-files', '--others', '--exclude-standard', '--', ...relativePaths]);
+
+  const parts = [tracked.stdout];
+  for (const file of untracked.stdout.split('\n').filter(line => line.length > 0)) {
+    try {
+      const added = await git(['diff', '--no-index', '--no-color', '--no-ext-diff', '--', '/dev/null', file]);
+      parts.push(added.stdout);
+    } catch (error: any) {
+      // --no-index exits with 1 when the files differ, which they always do here
+      if (error.code !== 1) throw error;
+      parts.push(error.stdout);
+    }
+  }
+
+  return parts.filter(part => part.length > 0).join('\n');
+}
+
+/** Break up ``` in diff content so it can't close the surrounding code block */
+function escapeFences(text: string): string {
+  return text.replace(/```/g, '`\u200b``');
+}
+
+function describeFile(file: FileDiff): string {
+  const name = file.status === 'renamed' && file.oldPath ? `${file.oldPath} → ${file.path}` : file.path;
+  const labels: Record<FileDiffStatus, string> = { added: ' (new)', deleted: ' (deleted)', renamed: ' (renamed)', modified: '' };
+  return `${name}${labels[file.status]}${file.binary ? ' (binary)' : ''}`;
+}
+
+/**
+ * One line per file for the summary embed: +/- counts and the path.
+ */
+export function formatDiffSummary(files: FileDiff[]): string[] {
+  return files.map(file => `\`+${file.additions} −${file.deletions}\` ${describeFile(file)}`);
+}
+
+/**
+ * The hunks as Markdown: a bold file heading, then each hunk as its own ```diff block,
+ * separated by blank lines so long diffs are split between hunks where possible.
+ */
+export function formatDiffHunks(files: FileDiff[]): string {
+  return files.map(file => {
+    const heading = `**${describeFile(file)}**`;
+    if (file.binary) {
+      return `${heading}\n*Binary file - not shown*`;
+    }
+    if (file.hunks.length === 0) {
+      return `${heading}\n*No content changes*`;
+    }
+    const hunks = file.hunks.map(hunk => '```diff\n' + escapeFences(hunk) + '\n```');
+    return [heading, ...hunks].join('\n\n');
+  }).join('\n\n');
+}
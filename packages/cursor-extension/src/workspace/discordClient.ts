@@ -34,13 +34,34 @@ import {
   TextInputStyle,
   ActionRowBuilder,
   ModalActionRowComponentBuilder,
+  GuildMember,
+  APIInteractionGuildMember,
+  ChatInputCommandInteraction,
+  AutocompleteInteraction,
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  MessageContextMenuCommandInteraction,
+  ButtonInteraction,
+  StringSelectMenuBuilder,
+  StringSelectMenuInteraction,
+  ModalSubmitInteraction,
+  escapeMarkdown,
 } from 'discord.js';
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { Commands, GetConfigResult, PostToThreadParams, CreateThreadParams, CreateThreadResult, PostToThreadResult, CreateChannelParams, CreateChannelResult, DiscordStatusResult, GuildInfo, ChannelInfo, CategoryInfo, PermissionCheckResult, CheckGuildPermissionsParams, GetChannelsParams, GetCategoriesParams, SendFileToThreadParams, SendFileToThreadResult, StartTypingParams, StartTypingResult, StopTypingParams, StopTypingResult, RenameThreadParams, RenameThreadResult, ArchiveThreadParams, ArchiveThreadResult, ForwardUserPromptParams, ForwardUserPromptResult, AskQuestionParams, AskQuestionResult, AskQuestionOption } from '../shared/commands';
-import { ChatMapping } from '../shared/types';
-import { getChatName } from './cursorStorage';
+import { Commands, GetConfigResult, PostToThreadParams, CreateThreadParams, CreateThreadResult, PostToThreadResult, CreateChannelParams, CreateChannelResult, DiscordStatusResult, GuildInfo, ChannelInfo, CategoryInfo, PermissionCheckResult, CheckGuildPermissionsParams, GetChannelsParams, GetCategoriesParams, SendFileToThreadParams, SendFileToThreadResult, SendDiffParams, SendDiffResult, StartTypingParams, StartTypingResult, StopTypingParams, StopTypingResult, RenameThreadParams, RenameThreadResult, ArchiveThreadParams, ArchiveThreadResult, ForwardUserPromptParams, ForwardUserPromptResult, EditMessageParams, EditMessageResult, AppendToMessageParams, AppendToMessageResult, AskQuestionParams, AskQuestionResult, AskQuestionOption, AskQuestionKind, AskQuestionsParams, FormAnswer, RequestApprovalParams, RequestApprovalResult, ApprovalDecision, CheckMessagesParams, CheckMessagesResult, CancelChatGenerationResult, CreateNewAgentChatResult, SendToFocusedChatParams } from '../shared/commands';
+import { ChatMapping, AccessRight, DownloadedAttachment, DEFAULT_REDACTION_SETTINGS } from '../shared/types';
+import { getChatName, getChatMetadata, getAllChatNames } from './cursorStorage';
+import { downloadMessageAttachments, formatAttachmentsForPrompt } from './attachmentInbox';
+import { MessageInbox } from './messageInbox';
+import { DeliveryQueue } from './deliveryQueue';
+import { splitMessage, summarizeMessage } from './messageSplitter';
+import { isAllowed, isApprover, hasApprovers, getMemberRoleIds, formatAccessDenied } from './accessControl';
+import { appendApprovalRecord } from './approvalLog';
+import { parseUnifiedDiff, diffFilesAgainstHead, formatDiffSummary, formatDiffHunks } from './diffRenderer';
+import { redactSecrets } from './redaction';
+import { findDeniedPattern } from '../shared/filePatterns';
 
 // Required permissions for the bot
 const REQUIRED_PERMISSIONS = [
@@ -55,11 +76,29 @@ const REQUIRED_PERMISSIONS = [
 
 const DISCORD_MAX_MESSAGE_LENGTH = 2000;
 
+// Room left in each chunk for the "(i/n) " part prefix
+const CHUNK_PREFIX_RESERVE = '(99/99) '.length;
+
+// Prefixes added when posting, stripped again when rebuilding a message we didn't track
+const PING_PREFIX_PATTERN = /^((?:<@!?\d+>\s*)+)\n/;
+const CHUNK_PREFIX_PATTERN = /^\(\d+\/\d+\) /;
+
+// File name of the full response in attachment mode (longResponseMode)
+const LONG_RESPONSE_FILE_NAME = 'response.md';
+
 export interface DiscordClientEvents {
   onReady: () => void;
   onDisconnect: () => void;
   onError: (error: Error) => void;
   onThreadMessage: (threadId: string, message: string, author: string) => void;
+  /** Connect an existing Cursor chat to a new thread, or to `threadId` if given (/open) */
+  onOpenChat: (chatId: string, threadId?: string) => Promise<OpenChatResult>;
+}
+
+export interface OpenChatResult {
+  success: boolean;
+  threadId?: string;
+  error?: string;
 }
 
 // Typing timeout - auto-stop after 5 minutes to prevent stuck indicators
@@ -68,6 +107,52 @@ const TYPING_TIMEOUT_MS = 5 * 60 * 1000;
 // Default timeout for ask_question - 5 minutes
 const ASK_QUESTION_TIMEOUT_MS = 5 * 60 * 1000;
 
+// Shortest interval between ask_question reminders
+const MIN_QUESTION_REMINDER_MS = 60 * 1000;
+
+// Button action for answering a question with a typed message (ask_q_{messageId}_typed)
+const QUESTION_TYPED_REPLY_ACTION = 'typed';
+
+// Diffs whose rendered hunks are longer than this are attached as a .patch file instead
+const MAX_INLINE_DIFF_LENGTH = 8000;
+
+// Embed descriptions are limited to 4096 characters
+const MAX_EMBED_DESCRIPTION_LENGTH = 4096;
+
+// Default timeout for request_approval - 15 minutes
+const APPROVAL_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Embed field values are limited to 1024 characters (including the code fence)
+const MAX_APPROVAL_PREVIEW_LENGTH = 1000;
+
+// A chat updated within this window is considered busy (agent still generating)
+const CHAT_BUSY_WINDOW_MS = 10 * 1000;
+
+// How many posted messages to remember for edit_message/append_to_message
+const MAX_TRACKED_MESSAGE_GROUPS = 200;
+
+// How many agent posts per thread to remember for transcript mirror deduplication
+const MAX_TRACKED_AGENT_POSTS = 20;
+
+// /new-agent options waiting for their prompt modal to be submitted
+const NEW_AGENT_OPTIONS_TTL_MS = 15 * 60 * 1000;
+
+// /new-agent file options (file, file2, file3)
+const NEW_AGENT_FILE_OPTIONS = ['file', 'file2', 'file3'];
+
+// Keep "Send to agent" picks this long while the user chooses a target
+const PENDING_FORWARD_TTL_MS = 15 * 60 * 1000;
+
+// ask_questions form limits (Components V2 messages allow 40 components)
+const MAX_FORM_COMPONENTS = 40;
+const MAX_FORM_BUTTON_OPTIONS = 10;
+
+// Max characters of a forwarded message quoted in the agent's thread
+const MAX_FORWARD_QUOTE_LENGTH = 1500;
+
+// Chats listed by /status (Components V2 messages are limited to 4000 characters of text)
+const MAX_STATUS_CHATS = 15;
+
 // Buffer for detecting manual vs auto archive (5 minutes)
 const ARCHIVE_DETECTION_BUFFER_MS = 5 * 60 * 1000;
 
@@ -76,16 +161,128 @@ interface TypingState {
   timeout: NodeJS.Timeout;
 }
 
+/**
+ * A logical message posted via post_to_thread, which may span several Discord
+ * messages when it's longer than the 2000 character limit.
+ */
+interface MessageGroup {
+  threadId: string;
+  /** Discord message IDs, one per chunk, in order */
+  messageIds: string[];
+  /** Full (unsplit) content */
+  content: string;
+  pingPrefix: string;
+  asEmbed: boolean;
+  /** Serializes edits so rapid appends don't interleave */
+  lastUpdate: Promise<unknown>;
+}
+
+/** Text the agent posted (or edited) via MCP, for transcript mirror deduplication */
+interface AgentPost {
+  text: string;
+  at: number;
+}
+
+/** Content + embeds for a single Discord message */
+interface MessagePayload {
+  content?: string;
+  embeds: EmbedBuilder[];
+  files?: AttachmentBuilder[];
+}
+
+/** /new-agent slash command options, kept until the prompt modal is submitted */
+interface NewAgentOptions {
+  threadName?: string;
+  /** Workspace-relative paths */
+  files: string[];
+  createdAt: number;
+}
+
+/** A message picked with the "Send to agent" context menu, kept until a target is chosen */
+interface PendingForward {
+  message: Message;
+  createdAt: number;
+}
+
+/** Outcome of startNewAgentChat */
+interface NewAgentChatOutcome {
+  threadId?: string;
+  /** User-facing failure message */
+  error?: string;
+  /** Non-fatal problems (e.g. the thread couldn't be created yet) */
+  notes: string[];
+}
+
+/** One question of an ask_questions form, with the answer so far */
+interface FormField {
+  id: string;
+  question: string;
+  kind: 'buttons' | 'select' | 'text';
+  options: AskQuestionOption[];
+  allowMultiple: boolean;
+  required: boolean;
+  selectedOptions: Set<string>;
+  textResponse?: string;
+}
+
 /** Tracks a pending question awaiting user response */
 interface PendingQuestion {
   threadId: string;
   messageId: string;
   question: string; // Original question text
+  kind: AskQuestionKind;
   options: AskQuestionOption[];
   allowMultiple: boolean;
   selectedOptions: Set<string>; // For multi-select tracking
-  resolve: (result: AskQuestionResult) => void;
-  timeout: NodeJS.Timeout;
+  /** Set for ask_questions forms (`question` is the form title) */
+  fields?: FormField[];
+  /** Discord users who may answer; empty means anyone with the answer right */
+  allowedResponderIds: string[];
+  /** Users who clicked Reply - their next message in the thread is their answer */
+  replyingUserIds?: Set<string>;
+  expiresAt: number;
+  /** Selected automatically when the question expires */
+  defaultOptionId?: string;
+  reminderIntervalMs?: number;
+  /** When to DM the escalation users; cleared once they've been notified */
+  escalateAt?: number;
+  /** Unset for questions restored after a restart - nobody is waiting on them anymore */
+  resolve?: (result: AskQuestionResult) => void;
+  timeout?: NodeJS.Timeout;
+  reminder?: NodeJS.Timeout;
+  escalation?: NodeJS.Timeout;
+}
+
+/** An approval request waiting for an approver's decision */
+interface PendingApproval {
+  threadId: string;
+  messageId: string;
+  action: string;
+  details?: string;
+  preview?: string;
+  previewLanguage?: string;
+  requestedAt: number;
+  expiresAt: number;
+  /** Unset for requests restored after a restart (they're expired right away) */
+  resolve?: (result: RequestApprovalResult) => void;
+  timeout?: NodeJS.Timeout;
+}
+
+/** A pending question as persisted in workspace state */
+interface StoredQuestion {
+  threadId: string;
+  messageId: string;
+  question: string;
+  kind?: AskQuestionKind;
+  options: AskQuestionOption[];
+  allowMultiple: boolean;
+  selectedOptionIds: string[];
+  fields?: (Omit<FormField, 'selectedOptions'> & { selectedOptionIds: string[] })[];
+  allowedResponderIds?: string[];
+  expiresAt: number;
+  defaultOptionId?: string;
+  reminderIntervalMs?: number;
+  escalateAt?: number;
 }
 
 export class DiscordClientManager {
@@ -98,12 +295,28 @@ export class DiscordClientManager {
   private typingState: Map<string, TypingState> = new Map();
   /** Tracks threads with recent Discord user messages (for discord_conversation ping mode) */
   private activeDiscordConversations: Map<string, { userId: string; timestamp: number }> = new Map();
+  /** Last Discord user to prompt each thread - by default, they may answer the agent's questions */
+  private promptAuthors: Map<string, string> = new Map();
   /** Tracks pending questions awaiting user response (keyed by messageId) */
   private pendingQuestions: Map<string, PendingQuestion> = new Map();
+  /** Approval requests awaiting a decision (keyed by messageId) */
+  private pendingApprovals: Map<string, PendingApproval> = new Map();
+  /** Recently posted messages that can be edited (keyed by first message ID) */
+  private messageGroups: Map<string, MessageGroup> = new Map();
+  /** Recent agent posts per thread (keyed by threadId) */
+  private agentPosts: Map<string, AgentPost[]> = new Map();
+  /** /new-agent options awaiting the prompt modal (keyed by slash command interaction ID) */
+  private pendingNewAgentOptions: Map<string, NewAgentOptions> = new Map();
+  // "Send to agent" messages waiting for a target (keyed by the context menu interaction ID)
+  private pendingForwards: Map<string, PendingForward> = new Map();
   /** Tracks last activity time for each thread (for detecting manual vs auto archive) */
   private threadLastActivity: Map<string, number> = new Map();
   /** Tracks threads explicitly archived by Discord user (won't auto-reopen) */
   private explicitlyArchivedThreadIds: Set<string> = new Set();
+  /** Buffers incoming thread messages for check_discord_messages */
+  private inbox: MessageInbox;
+  /** Holds messages for chats whose agent is busy */
+  private deliveryQueue: DeliveryQueue;
 
   constructor(
     context: vscode.ExtensionContext,
@@ -113,6 +326,11 @@ export class DiscordClientManager {
     this.context = context;
     this.outputChannel = outputChannel;
     this.events = events;
+    this.inbox = new MessageInbox(context, outputChannel);
+    this.deliveryQueue = new DeliveryQueue(outputChannel, {
+      isChatBusy: (chatId, threadId) => this.isChatBusy(chatId, threadId),
+      deliver: (chatId, threadId, prompt, messages) => this.deliverToChat(chatId, threadId, prompt, messages),
+    });
     
     // Load persisted data
     this.loadThreadLastActivity();
@@ -151,6 +369,10 @@ export class DiscordClientManager {
         // Try to connect to the configured channel
         await this.connectToConfiguredChannel();
 
+        // Bring back questions asked before a restart (or expire them)
+        await this.restorePendingQuestions();
+        await this.expireRestoredApprovals();
+
         // Register slash commands for configured guild
         // Note: config.token was validated above before login
         await this.registerSlashCommands(config.token!, readyClient.user.id);
@@ -210,6 +432,7 @@ export class DiscordClientManager {
     if (this.client) {
       // Stop all typing indicators
       this.stopAllTyping();
+      this.deliveryQueue.clear();
       
       this.client.destroy();
       this.client = null;
@@ -454,7 +677,9 @@ export class DiscordClientManager {
 
     try {
       // Generate thread name from provided name
-      const threadName = this.generateThreadName(params.name);
+      const threadName = this.generateThreadName(
+        params.name ? await this.redact(params.name, 'thread name') : undefined
+      );
       
       if (!threadName) {
         return { 
@@ -476,6 +701,7 @@ export class DiscordClientManager {
         threadId: thread.id,
         workspaceName: params.workspaceName,
         createdAt: new Date().toISOString(),
+        customName: params.customName || undefined,
       });
 
       // Track initial activity for this thread
@@ -549,7 +775,7 @@ export class DiscordClientManager {
       }
 
       const oldName = channel.name;
-      const newName = params.name.substring(0, 100); // Discord thread name limit
+      const newName = (await this.redact(params.name, 'thread name')).substring(0, 100); // Discord thread name limit
       
       // Skip if name is already correct
       if (oldName === newName) {
@@ -823,27 +1049,27 @@ export class DiscordClientManager {
       // Determine if we should ping users
       const pingPrefix = await this.getPingPrefixForThread(threadId);
 
-      const chunks = this.splitMessage(params.message);
-
-      if (params.asEmbed && chunks.length === 1) {
-        await thread.send({
-          content: pingPrefix || undefined,
-          embeds: [
-            new EmbedBuilder()
-              .setDescription(chunks[0])
-              .setColor(0x5865f2)
-              .setTimestamp(),
-          ],
-        });
-      } else {
-        for (let i = 0; i < chunks.length; i++) {
-          const prefix = chunks.length > 1 ? `(${i + 1}/${chunks.length}) ` : '';
-          // Only add ping prefix to the first message
-          const ping = i === 0 && pingPrefix ? `${pingPrefix}\n` : '';
-          await thread.send(ping + prefix + chunks[i]);
-        }
+      const message = await this.redact(params.message, `message in thread ${threadId}`);
+
+      const asEmbed = params.asEmbed ?? false;
+      const messageIds: string[] = [];
+
+      for (const payload of await this.buildResponsePayloads(message, pingPrefix, asEmbed)) {
+        const sent = await thread.send(payload);
+        messageIds.push(sent.id);
       }
 
+      this.trackMessageGroup({
+        threadId,
+        messageIds,
+        content: message,
+        pingPrefix,
+        asEmbed,
+        lastUpdate: Promise.resolve(),
+      });
+
+      this.recordAgentPost(threadId, message);
+
       // Track activity for this thread (keeps it fresh for auto-archive detection)
       await this.updateThreadActivity(threadId);
 
@@ -853,13 +1079,241 @@ export class DiscordClientManager {
         this.activeDiscordConversations.delete(threadId);
       }
 
-      return { success: true, threadId };
+      return { success: true, threadId, messageIds };
     } catch (error: any) {
       this.outputChannel.appendLine(`Failed to post to thread: ${error.message}`);
       return { success: false, error: error.message };
     }
   }
 
+  /**
+   * Replace the content of a previously posted message.
+   * Chunks are re-split, so the message can grow past (or shrink below) the 2000 char limit.
+   */
+  async editMessage(params: EditMessageParams): Promise<EditMessageResult> {
+    return this.updateMessage(params.threadId, params.messageId, () => params.message);
+  }
+
+  /**
+   * Append text to a previously posted message (e.g. a live progress message).
+   */
+  async appendToMessage(params: AppendToMessageParams): Promise<AppendToMessageResult> {
+    return this.updateMessage(params.threadId, params.messageId, current => current + params.text);
+  }
+
+  private async updateMessage(
+    threadId: string | undefined,
+    messageId: string,
+    getNewContent: (current: string) => string
+  ): Promise<EditMessageResult> {
+    if (!this.client) {
+      return { success: false, error: 'Not connected' };
+    }
+
+    if (!threadId) {
+      return { success: false, error: 'No thread ID provided' };
+    }
+
+    try {
+      const thread = await this.client.channels.fetch(threadId);
+      if (!(thread instanceof ThreadChannel)) {
+        return { success: false, error: `Thread ${threadId} not found` };
+      }
+
+      const group = await this.resolveMessageGroup(thread, messageId);
+
+      // Wait for any in-flight edit of this message, then apply ours on top of its result
+      const update = group.lastUpdate.then(async () => {
+        const content = await this.redact(getNewContent(group.content), `edit of message ${messageId}`);
+        return this.editMessageGroup(thread, group, content);
+      });
+      group.lastUpdate = update.catch(() => {});
+      const messageIds = await update;
+      this.recordAgentPost(threadId, group.content);
+
+      await this.updateThreadActivity(threadId);
+
+      return { success: true, threadId, messageIds };
+    } catch (error: any) {
+      this.outputChannel.appendLine(`Failed to edit message ${messageId}: ${error.message}`);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Find the tracked group a message belongs to. Messages we don't know about
+   * (e.g. posted before a reload) are treated as a single-chunk group, with the
+   * ping and (i/n) prefixes stripped so they aren't added twice.
+   */
+  private async resolveMessageGroup(thread: ThreadChannel, messageId: string): Promise<MessageGroup> {
+    const tracked = this.messageGroups.get(messageId)
+      ?? [...this.messageGroups.values()].find(g => g.messageIds.includes(messageId));
+    if (tracked) {
+      if (tracked.threadId !== thread.id) {
+        throw new Error(`Message ${messageId} is not in thread ${thread.id}`);
+      }
+      return tracked;
+    }
+
+    const message = await thread.messages.fetch(messageId);
+    if (message.author.id !== this.client?.user?.id) {
+      throw new Error('Only messages posted by the bot can be edited');
+    }
+
+    const asEmbed = message.embeds.length > 0;
+    let content: string;
+    let pingPrefix: string;
+    if (asEmbed) {
+      // Embeds carry the ping as the message content
+      content = message.embeds[0].description ?? '';
+      pingPrefix = message.content.trim();
+    } else {
+      const ping = message.content.match(PING_PREFIX_PATTERN);
+      pingPrefix = ping ? ping[1].trim() : '';
+      content = message.content.slice(ping?.[0].length ?? 0).replace(CHUNK_PREFIX_PATTERN, '');
+    }
+
+    // Attachment mode: the message only holds a summary, the full response is the file
+    const responseFile = message.attachments.find(a => a.name === LONG_RESPONSE_FILE_NAME);
+    if (responseFile) {
+      const response = await fetch(responseFile.url);
+      if (!response.ok) {
+        throw new Error(`Failed to download ${LONG_RESPONSE_FILE_NAME}: HTTP ${response.status}`);
+      }
+      content = await response.text();
+    }
+
+    return this.trackMessageGroup({
+      threadId: thread.id,
+      messageIds: [message.id],
+      content,
+      pingPrefix,
+      asEmbed,
+      lastUpdate: Promise.resolve(),
+    });
+  }
+
+  private recordAgentPost(threadId: string, text: string): void {
+    const posts = this.agentPosts.get(threadId) ?? [];
+    posts.push({ text, at: Date.now() });
+    this.agentPosts.set(threadId, posts.slice(-MAX_TRACKED_AGENT_POSTS));
+  }
+
+  /**
+   * Text the agent posted or edited in a thread since a point in time.
+   * Used by TranscriptMirror to skip responses the agent already mirrored itself.
+   */
+  getAgentPostsSince(threadId: string, since: number): string[] {
+    return (this.agentPosts.get(threadId) ?? []).filter(post => post.at >= since).map(post => post.text);
+  }
+
+  private trackMessageGroup(group: MessageGroup): MessageGroup {
+    this.messageGroups.set(group.messageIds[0], group);
+
+    // Forget the oldest groups (Map preserves insertion order)
+    while (this.messageGroups.size > MAX_TRACKED_MESSAGE_GROUPS) {
+      const oldest = this.messageGroups.keys().next().value as string;
+      this.messageGroups.delete(oldest);
+    }
+
+    return group;
+  }
+
+  /**
+   * Re-render a message group with new content: edit existing chunks, send new
+   * chunks if it grew, and delete leftover chunks if it shrank.
+   */
+  private async editMessageGroup(thread: ThreadChannel, group: MessageGroup, content: string): Promise<string[]> {
+    const payloads = await this.buildResponsePayloads(content, group.pingPrefix, group.asEmbed);
+    const messageIds: string[] = [];
+
+    for (let i = 0; i < payloads.length; i++) {
+      const payload = payloads[i];
+
+      if (i < group.messageIds.length) {
+        const existing = await thread.messages.fetch(group.messageIds[i]);
+        const unchanged = payload.embeds.length === 0 && existing.embeds.length === 0
+          && !payload.files?.length && existing.attachments.size === 0
+          && existing.content === payload.content;
+        if (!unchanged) {
+          // Replace attachments too (a message can switch between attachment mode and plain chunks)
+          await existing.edit({ content: payload.content ?? null, embeds: payload.embeds, files: payload.files ?? [], attachments: [] });
+        }
+        messageIds.push(existing.id);
+      } else {
+        const sent = await thread.send(payload);
+        messageIds.push(sent.id);
+      }
+    }
+
+    for (const extraId of group.messageIds.slice(payloads.length)) {
+      try {
+        await thread.messages.delete(extraId);
+      } catch (error: any) {
+        this.outputChannel.appendLine(`Failed to delete leftover chunk ${extraId}: ${error.message}`);
+      }
+    }
+
+    group.messageIds = messageIds;
+    group.content = content;
+    return messageIds;
+  }
+
+  /**
+   * Build the Discord messages for a response: one message with a file attached
+   * when it's over the long response threshold in attachment mode, else (i/n) chunks.
+   */
+  private async buildResponsePayloads(content: string, pingPrefix: string, asEmbed: boolean): Promise<MessagePayload[]> {
+    const config = await vscode.commands.executeCommand<GetConfigResult>(Commands.GET_CONFIG);
+    if (config?.longResponseMode === 'attachment' && content.length > (config.longResponseThreshold ?? 4000)) {
+      return [this.buildLongResponsePayload(content, pingPrefix, config.longResponseSummaryLines ?? 10)];
+    }
+    return this.buildMessagePayloads(content, pingPrefix, asEmbed);
+  }
+
+  /**
+   * Build a message with the first lines of a long response as a summary and
+   * the full response attached as a markdown file.
+   */
+  private buildLongResponsePayload(content: string, pingPrefix: string, summaryLines: number): MessagePayload {
+    const ping = pingPrefix ? `${pingPrefix}\n` : '';
+    const footer = `\n\n📄 *Full response (${content.length.toLocaleString()} characters) attached as \`${LONG_RESPONSE_FILE_NAME}\`*`;
+    const summary = summarizeMessage(content, summaryLines, DISCORD_MAX_MESSAGE_LENGTH - ping.length - footer.length);
+    const file = new AttachmentBuilder(Buffer.from(content, 'utf-8'), { name: LONG_RESPONSE_FILE_NAME });
+
+    return { content: ping + summary + footer, embeds: [], files: [file] };
+  }
+
+  /**
+   * Split content into Discord messages, adding (i/n) prefixes and the ping
+   * to the first chunk. Single-chunk embeds stay embeds.
+   */
+  private buildMessagePayloads(content: string, pingPrefix: string, asEmbed: boolean): MessagePayload[] {
+    const pingLength = pingPrefix ? pingPrefix.length + 1 : 0;
+    const chunks = pingLength + content.length <= DISCORD_MAX_MESSAGE_LENGTH
+      ? [content]
+      : splitMessage(content, DISCORD_MAX_MESSAGE_LENGTH - pingLength - CHUNK_PREFIX_RESERVE);
+
+    if (asEmbed && chunks.length === 1) {
+      return [{
+        content: pingPrefix || undefined,
+        embeds: [
+          new EmbedBuilder()
+            .setDescription(chunks[0])
+            .setColor(0x5865f2)
+            .setTimestamp(),
+        ],
+      }];
+    }
+
+    return chunks.map((chunk, i) => {
+      const prefix = chunks.length > 1 ? `(${i + 1}/${chunks.length}) ` : '';
+      // Only add ping prefix to the first message
+      const ping = i === 0 && pingPrefix ? `${pingPrefix}\n` : '';
+      return { content: ping + prefix + chunk, embeds: [] };
+    });
+  }
+
   /**
    * Determines if users should be pinged for this message based on settings.
    * Returns a mention string or empty string.
@@ -914,7 +1368,8 @@ export class DiscordClientManager {
       }
 
       // Format the user prompt with a distinctive style
-      const formattedPrompt = `📝 **User prompt from Cursor:**\n\`\`\`\n${params.prompt}\n\`\`\``;
+      const prompt = await this.redact(params.prompt, `user prompt in thread ${params.threadId}`);
+      const formattedPrompt = `📝 **User prompt from Cursor:**\n\`\`\`\n${prompt}\n\`\`\``;
 
       await thread.send(formattedPrompt);
       this.outputChannel.appendLine(`Forwarded user prompt to thread ${params.threadId}`);
@@ -966,8 +1421,11 @@ export class DiscordClientManager {
       }
 
       // Send with optional description
+      const description = params.description
+        ? await this.redact(params.description, `file description in thread ${threadId}`)
+        : undefined;
       await thread.send({
-        content: params.description || undefined,
+        content: description,
         files: [attachment],
       });
 
@@ -979,6 +1437,103 @@ export class DiscordClientManager {
     }
   }
 
+  /**
+   * Post a diff: a summary embed (files changed, +/- counts), then the hunks as ```diff
+   * blocks split between hunks - or, past MAX_INLINE_DIFF_LENGTH, the whole diff as a .patch file.
+   */
+  async sendDiff(params: SendDiffParams): Promise<SendDiffResult> {
+    if (!this.client) {
+      return { success: false, error: 'Not connected' };
+    }
+
+    if (!params.threadId) {
+      return { success: false, error: 'No thread ID provided' };
+    }
+    const threadId = params.threadId;
+
+    try {
+      const thread = await this.client.channels.fetch(threadId);
+      if (!(thread instanceof ThreadChannel)) {
+        return { success: false, error: `Thread ${threadId} not found` };
+      }
+
+      let rawDiff: string;
+      if (params.diff) {
+        rawDiff = params.diff;
+      } else if (params.files && params.files.length > 0) {
+        rawDiff = await diffFilesAgainstHead(params.files);
+      } else {
+        return { success: false, error: 'No diff or files provided' };
+      }
+
+      // Secrets can't be diffed into Discord: check every file in the diff, since a
+      // directory or a pasted diff can include files that weren't named in the request
+      const config = await vscode.commands.executeCommand<GetConfigResult>(Commands.GET_CONFIG);
+      const deniedPatterns = config?.deniedFilePatterns ?? [];
+      for (const file of parseUnifiedDiff(rawDiff)) {
+        for (const filePath of [file.path, file.oldPath]) {
+          const pattern = filePath ? findDeniedPattern(filePath, deniedPatterns) : undefined;
+          if (pattern) {
+            this.outputChannel.appendLine(`[Diff] Rejected diff for thread ${threadId}: ${filePath} matches "${pattern}"`);
+            return { success: false, error: `Diffing files matching "${pattern}" is blocked because they commonly contain secrets: ${filePath}` };
+          }
+        }
+      }
+
+      const context = `diff in thread ${threadId}`;
+      const diff = await this.redact(rawDiff, context);
+      const files = parseUnifiedDiff(diff);
+      if (files.length === 0) {
+        return { success: false, error: params.diff ? 'No file changes found in the diff' : 'The files have no changes against HEAD' };
+      }
+
+      const additions = files.reduce((sum, file) => sum + file.additions, 0);
+      const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+
+      // File list, cut short (with a count of the rest) if it doesn't fit in the embed
+      const intro = params.description ? `${await this.redact(params.description, context)}\n\n` : '';
+      const summaryLines = formatDiffSummary(files);
+      let description = intro + summaryLines.join('\n');
+      for (let shown = summaryLines.length - 1; description.length > MAX_EMBED_DESCRIPTION_LENGTH && shown > 0; shown--) {
+        description = intro + summaryLines.slice(0, shown).join('\n') + `\n*…and ${summaryLines.length - shown} more file(s)*`;
+      }
+
+      const embed = new EmbedBuilder()
+        .setTitle(`📝 ${params.title ? await this.redact(params.title, context) : 'Changes'}`)
+        .setDescription(description.substring(0, MAX_EMBED_DESCRIPTION_LENGTH))
+        .setFooter({ text: `${files.length} file(s) changed · +${additions} −${deletions}` })
+        .setColor(0x5865f2);
+
+      const hunks = formatDiffHunks(files);
+      const attached = hunks.length > MAX_INLINE_DIFF_LENGTH;
+      const messageIds: string[] = [];
+
+      // Diff content is never allowed to ping anyone
+      const summary = await thread.send({
+        embeds: [embed],
+        files: attached ? [new AttachmentBuilder(Buffer.from(diff, 'utf-8'), { name: 'changes.patch' })] : [],
+        allowedMentions: { parse: [] },
+      });
+      messageIds.push(summary.id);
+
+      if (!attached) {
+        for (const chunk of splitMessage(hunks, DISCORD_MAX_MESSAGE_LENGTH)) {
+          const sent = await thread.send({ content: chunk, allowedMentions: { parse: [] } });
+          messageIds.push(sent.id);
+        }
+      }
+
+      this.stopTypingForThread(threadId);
+      await this.updateThreadActivity(threadId);
+
+      this.outputChannel.appendLine(`Sent diff (${files.length} file(s), +${additions} −${deletions}${attached ? ', as .patch' : ''}) to thread ${threadId}`);
+      return { success: true, messageIds, filesChanged: files.length, additions, deletions, attached };
+    } catch (error: any) {
+      this.outputChannel.appendLine(`Failed to send diff: ${error.message}`);
+      return { success: false, error: error.message };
+    }
+  }
+
   async startTyping(params: StartTypingParams): Promise<StartTypingResult> {
     if (!this.client) {
       return { success: false, error: 'Not connected' };
@@ -1071,9 +1626,23 @@ export class DiscordClientManager {
     }
 
     this.outputChannel.appendLine(
-      `Message in thread ${thread.name}: ${message.content.substring(0, 50)}...`
+      `Message in thread ${thread.name}: ${message.content.substring(0, 50)}...` +
+      (message.attachments.size > 0 ? ` (+${message.attachments.size} attachment(s))` : '')
     );
 
+    // Replies to a pending question (or text sent after its Reply button) answer it; anything else is a prompt
+    const answered = this.findQuestionAnsweredBy(thread.id, message);
+    const right: AccessRight = answered ? 'answer' : 'prompt';
+    if (!(await this.checkAccess(right, message.author.id, message.member))) {
+      await message.react('🚫');
+      return;
+    }
+    if (answered && !this.canAnswerQuestion(answered, message.author.id)) {
+      this.outputChannel.appendLine(`[Questions] Ignored answer from ${message.author.username}: not an allowed responder`);
+      await message.react('🚫');
+      return;
+    }
+
     // Track activity for this thread (for manual vs auto archive detection)
     await this.updateThreadActivity(thread.id);
 
@@ -1081,9 +1650,19 @@ export class DiscordClientManager {
     await this.clearExplicitArchive(thread.id);
 
     // Check if this message is responding to a pending question
-    if (this.checkForQuestionResponse(thread.id, message.content, message.author.id)) {
-      this.outputChannel.appendLine(`Message resolved pending question in thread ${thread.name}`);
-      await message.react('✅');
+    if (answered) {
+      const resolved = await this.resolveQuestion(answered, {
+        success: true,
+        responseType: 'text',
+        textResponse: message.content,
+      }, message.author);
+      if (resolved) {
+        this.outputChannel.appendLine(`Message resolved pending question in thread ${thread.name}`);
+        await message.react('✅');
+      } else {
+        // Someone else answered (or it expired) while this message was being checked
+        await message.react('⌛');
+      }
       return; // Don't forward to Cursor - this was an answer to a question
     }
 
@@ -1092,30 +1671,108 @@ export class DiscordClientManager {
       userId: message.author.id,
       timestamp: Date.now(),
     });
+    this.promptAuthors.set(thread.id, message.author.id);
 
     // Emit event for external handling
     this.events.onThreadMessage(thread.id, message.content, message.author.username);
 
-    // Send message to Cursor via UI part command
+    // Save any attachments into the workspace inbox and tell the agent where they are
+    const attachments = await downloadMessageAttachments(message, thread.id, this.outputChannel);
+    const attachmentText = formatAttachmentsForPrompt(attachments);
+    const prompt = [message.content, attachmentText].filter(part => part.length > 0).join('\n\n');
+
+    if (!prompt) {
+      return; // Nothing to forward (e.g., a sticker-only message)
+    }
+
+    // Buffer in the inbox so the agent can also poll for it (check_discord_messages)
+    await this.inbox.add({
+      messageId: message.id,
+      threadId: thread.id,
+      author: message.author.username,
+      authorId: message.author.id,
+      content: message.content,
+      attachments,
+      timestamp: message.createdTimestamp,
+      deliveredToChat: false,
+    });
+
+    // Queue for delivery - held while the agent is busy, batched with quick follow-ups
+    this.deliveryQueue.enqueue(mapping.chatId, thread.id, { message, prompt });
+  }
+
+  /**
+   * Whether the agent for a chat is still working: it has an active typing
+   * indicator, or Cursor updated the chat very recently.
+   */
+  private async isChatBusy(chatId: string, threadId: string): Promise<boolean> {
+    if (this.typingState.has(threadId)) {
+      return true;
+    }
+
+    const metadata = await getChatMetadata(chatId);
+    if (metadata?.lastUpdatedAt && Date.now() - metadata.lastUpdatedAt < CHAT_BUSY_WINDOW_MS) {
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Send a queued (possibly batched) prompt to Cursor via the UI part.
+   */
+  private async deliverToChat(chatId: string, threadId: string, prompt: string, messages: Message[]): Promise<void> {
+    const lastMessage = messages[messages.length - 1];
+
     try {
       const result = await vscode.commands.executeCommand<{ success: boolean; error?: string }>(
         Commands.SEND_TO_CHAT,
         {
-          chatId: mapping.chatId,
-          message: message.content,
-          threadId: thread.id,
+          chatId,
+          message: prompt,
+          threadId,
         }
       );
 
       if (!result?.success) {
         this.outputChannel.appendLine(`Failed to send to Cursor: ${result?.error}`);
-        await message.reply(`❌ Failed to send to Cursor: ${result?.error}`);
+        await lastMessage.reply(`❌ Failed to send to Cursor: ${result?.error}\nThe agent can still read it with check_discord_messages.`);
       } else {
-        await message.react('✅');
+        for (const message of messages) {
+          await this.inbox.setDelivered(threadId, message.id, true);
+          await message.react('✅');
+        }
       }
     } catch (error: any) {
       this.outputChannel.appendLine(`Error sending to Cursor: ${error.message}`);
-      await message.reply(`❌ Error: ${error.message}`);
+      await lastMessage.reply(`❌ Error: ${error.message}\nThe agent can still read it with check_discord_messages.`);
+    }
+  }
+
+  /**
+   * Return unread inbox messages for a thread (check_discord_messages).
+   */
+  async checkMessages(params: CheckMessagesParams): Promise<CheckMessagesResult> {
+    if (!params.threadId) {
+      return { success: false, error: 'No thread ID provided' };
+    }
+
+    try {
+      const messages = await this.inbox.read(params.threadId, params.peek);
+
+      // The agent has these now - don't also type them into the chat once it goes idle
+      const mapping = this.getMappingForThread(params.threadId);
+      if (!params.peek && mapping && messages.length > 0) {
+        const removed = await this.deliveryQueue.remove(mapping.chatId, messages.map(m => m.messageId));
+        for (const message of removed) {
+          await this.inbox.setDelivered(params.threadId, message.id, true);
+          await message.react('✅').catch(() => {});
+        }
+      }
+
+      return { success: true, messages };
+    } catch (error: any) {
+      return { success: false, error: error.message };
     }
   }
 
@@ -1177,6 +1834,18 @@ export class DiscordClientManager {
       return;
     }
 
+    // Handle message context menu commands ("Send to agent")
+    if (interaction.isMessageContextMenuCommand()) {
+      await this.handleSendToAgentCommand(interaction);
+      return;
+    }
+
+    // Handle option autocomplete (e.g. /new-agent file)
+    if (interaction.isAutocomplete()) {
+      await this.handleAutocomplete(interaction);
+      return;
+    }
+
     // Handle modal submissions
     if (interaction.isModalSubmit()) {
       await this.handleModalSubmit(interaction);
@@ -1188,6 +1857,16 @@ export class DiscordClientManager {
       await this.handleButtonInteraction(interaction);
       return;
     }
+
+    // Handle select menus ("Send to existing agent…", select questions)
+    if (interaction.isStringSelectMenu()) {
+      if (interaction.customId.startsWith('forward-existing:')) {
+        await this.handleForwardToExistingAgent(interaction);
+      } else if (interaction.customId.startsWith('ask_q_')) {
+        await this.handleQuestionSelect(interaction);
+      }
+      return;
+    }
   }
 
   /**
@@ -1196,18 +1875,54 @@ export class DiscordClientManager {
   private async handleSlashCommand(interaction: Interaction): Promise<void> {
     if (!interaction.isChatInputCommand()) return;
 
-    // Multi-instance check: only handle if this is our configured channel
-    if (interaction.channelId !== this.currentChannel?.id) {
-      this.outputChannel.appendLine(`[SlashCommand] Ignoring command in channel ${interaction.channelId} (not our channel ${this.currentChannel?.id})`);
+    if (interaction.commandName === 'stop' || interaction.commandName === 'cancel') {
+      await this.handleStopCommand(interaction);
+      return;
+    }
+
+    if (interaction.commandName === 'open') {
+      await this.handleOpenCommand(interaction);
+      return;
+    }
+
+    // Multi-instance check: only handle if this is our configured channel
+    if (interaction.channelId !== this.currentChannel?.id) {
+      this.outputChannel.appendLine(`[SlashCommand] Ignoring command in channel ${interaction.channelId} (not our channel ${this.currentChannel?.id})`);
       return;
     }
 
     if (interaction.commandName === 'new-agent') {
       this.outputChannel.appendLine('[SlashCommand] Handling /new-agent command');
 
+      if (!(await this.checkAccess('createAgent', interaction.user.id, interaction.member))) {
+        await interaction.reply({ content: formatAccessDenied('createAgent'), flags: MessageFlags.Ephemeral });
+        return;
+      }
+
+      // Validate attached files before asking for the prompt
+      const files: string[] = [];
+      for (const optionName of NEW_AGENT_FILE_OPTIONS) {
+        const value = interaction.options.getString(optionName);
+        if (!value) continue;
+        const resolved = await this.resolveWorkspaceFile(value);
+        if ('error' in resolved) {
+          await interaction.reply({ content: `❌ ${resolved.error}`, flags: MessageFlags.Ephemeral });
+          return;
+        }
+        files.push(resolved.file);
+      }
+
+      // Keep the options until the modal is submitted (the modal can only carry text inputs)
+      this.prunePendingNewAgentOptions();
+      this.pendingNewAgentOptions.set(interaction.id, {
+        threadName: interaction.options.getString('thread_name') ?? undefined,
+        files,
+        createdAt: Date.now(),
+      });
+
       // Create and show the modal
       const modal = new ModalBuilder()
-        .setCustomId('new-agent-modal')
+        .setCustomId(`new-agent-modal:${interaction.id}`)
         .setTitle('New Agent Chat');
 
       const promptInput = new TextInputBuilder()
@@ -1225,7 +1940,263 @@ export class DiscordClientManager {
       modal.addComponents(actionRow);
 
       await interaction.showModal(modal);
+    } else if (interaction.commandName === 'status') {
+      this.outputChannel.appendLine('[SlashCommand] Handling /status command');
+      await this.handleStatusCommand(interaction);
+    }
+  }
+
+  /**
+   * Connect an existing Cursor chat to Discord. In the project channel, the chat
+   * gets a thread (reusing its old one if it still exists); inside a thread, the
+   * thread is rebound to the chat.
+   */
+  private async handleOpenCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    // Multi-instance check: the project channel or one of its threads
+    if (!this.isOwnChannel(interaction.channelId)) {
+      this.outputChannel.appendLine(`[SlashCommand] Ignoring /open in channel ${interaction.channelId} (not our channel)`);
+      return;
+    }
+
+    this.outputChannel.appendLine('[SlashCommand] Handling /open command');
+
+    if (!(await this.checkAccess('prompt', interaction.user.id, interaction.member))) {
+      await interaction.reply({ content: formatAccessDenied('prompt'), flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const chatNames = await getAllChatNames();
+    const chatId = this.findChat(interaction.options.getString('chat', true), chatNames);
+    if (!chatId) {
+      await interaction.reply({ content: '❌ No Cursor chat matches that name. Pick one from the suggestions.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+    const chatName = chatNames.get(chatId) || `Chat ${chatId.substring(0, 8)}`;
+
+    await interaction.deferReply();
+
+    const inThread = interaction.channelId !== this.currentChannel?.id;
+    const result = await this.events.onOpenChat(chatId, inThread ? interaction.channelId : undefined);
+
+    if (!result.success || !result.threadId) {
+      await interaction.editReply(`❌ Failed to open **${escapeMarkdown(chatName)}**: ${result.error || 'Unknown error'}`);
+      return;
+    }
+
+    await interaction.editReply(inThread
+      ? `🔗 This thread is now connected to Cursor chat **${escapeMarkdown(chatName)}**. Messages here go to that chat.`
+      : `✅ Opened **${escapeMarkdown(chatName)}** in <#${result.threadId}>`);
+    vscode.commands.executeCommand(Commands.ADD_LOG, `Opened chat from Discord: ${chatName}`);
+  }
+
+  /**
+   * Resolve the /open chat option: a chat ID (picked from autocomplete) or a typed name.
+   */
+  private findChat(value: string, chatNames: Map<string, string>): string | undefined {
+    if (chatNames.has(value)) {
+      return value;
+    }
+    const query = value.trim().toLowerCase();
+    const entries = [...chatNames.entries()];
+    return entries.find(([, name]) => name.toLowerCase() === query)?.[0]
+      ?? entries.find(([, name]) => name.toLowerCase().includes(query))?.[0];
+  }
+
+  /**
+   * Whether a channel is the project channel or one of its threads.
+   */
+  private isOwnChannel(channelId: string | null): boolean {
+    if (!channelId || !this.currentChannel) {
+      return false;
+    }
+    if (channelId === this.currentChannel.id) {
+      return true;
+    }
+    const channel = this.client?.channels.cache.get(channelId);
+    return channel instanceof ThreadChannel && channel.parentId === this.currentChannel.id;
+  }
+
+  /**
+   * Stop the agent of the thread /stop (or /cancel) was used in: drop queued
+   * messages, cancel generation in Cursor, stop typing, and cancel any pending question.
+   */
+  private async handleStopCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    const threadId = interaction.channelId;
+    const mapping = this.getMappingForThread(threadId);
+
+    // Multi-instance check: only the instance that owns this thread handles it
+    if (!mapping) {
+      if (threadId === this.currentChannel?.id) {
+        await interaction.reply({
+          content: `Use \`/${interaction.commandName}\` inside an agent thread to stop that agent.`,
+          flags: MessageFlags.Ephemeral,
+        });
+      }
+      return;
+    }
+
+    this.outputChannel.appendLine(`[SlashCommand] Handling /${interaction.commandName} in thread ${threadId}`);
+
+    if (!(await this.checkAccess('prompt', interaction.user.id, interaction.member))) {
+      await interaction.reply({ content: formatAccessDenied('prompt'), flags: MessageFlags.Ephemeral });
+      return;
     }
+
+    // Cancelling focuses windows and waits on the UI, which can exceed the 3s reply window
+    await interaction.deferReply();
+
+    // Queued messages would otherwise be typed into the chat as soon as it goes idle
+    const discardedMessages = await this.deliveryQueue.discard(mapping.chatId);
+
+    const result = await vscode.commands.executeCommand<CancelChatGenerationResult>(
+      Commands.CANCEL_CHAT_GENERATION,
+      { chatId: mapping.chatId }
+    );
+
+    this.stopTypingForThread(threadId);
+
+    let cancelledQuestions = 0;
+    for (const pending of [...this.pendingQuestions.values()]) {
+      if (pending.threadId === threadId && await this.resolveQuestion(pending, {
+        success: false,
+        cancelled: true,
+        error: `Cancelled by ${interaction.user.username} with /${interaction.commandName}`,
+      })) {
+        cancelledQuestions++;
+      }
+    }
+
+    let cancelledApprovals = 0;
+    for (const pending of [...this.pendingApprovals.values()]) {
+      // Skip requests decided while an earlier one was being cancelled
+      if (pending.threadId === threadId && this.pendingApprovals.has(pending.messageId)) {
+        await this.decideApproval(pending, 'cancelled', interaction.user);
+        cancelledApprovals++;
+      }
+    }
+
+    if (result?.success) {
+      const details = (cancelledQuestions > 0 ? ' Pending question cancelled.' : '') +
+        (cancelledApprovals > 0 ? ' Approval request cancelled.' : '') +
+        (discardedMessages > 0 ? ` ${discardedMessages} queued message(s) not sent (the agent can still read them with check_discord_messages).` : '');
+      await interaction.editReply(`🛑 **Agent stopped** by ${interaction.user}.${details}`);
+      vscode.commands.executeCommand(Commands.ADD_LOG, `Agent stopped from Discord (thread ${threadId})`);
+    } else {
+      await interaction.editReply(`⚠️ Couldn't stop the agent in Cursor: ${result?.error || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Reply to /status with a summary of every mapped agent chat in this workspace:
+   * whether it's working, waiting for an answer, idle or archived.
+   */
+  private async handleStatusCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    // Reading thread state and chat names can take longer than the 3s reply window
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    try {
+      const container = await this.buildStatusComponents();
+      await interaction.editReply({ components: [container], flags: MessageFlags.IsComponentsV2 });
+    } catch (error: any) {
+      this.outputChannel.appendLine(`[SlashCommand] Failed to build status: ${error.message}`);
+      await interaction.editReply({ content: `❌ Failed to get status: ${error.message}` });
+    }
+  }
+
+  private async buildStatusComponents(): Promise<ContainerBuilder> {
+    const entries: { line: string; lastActivity: number; archived: boolean }[] = [];
+    const counts = { working: 0, waiting: 0, idle: 0, archived: 0 };
+
+    for (const [chatId, mapping] of this.getChatMappings()) {
+      const threadId = mapping.threadId;
+      let thread: ThreadChannel | undefined;
+      try {
+        const channel = await this.client?.channels.fetch(threadId);
+        if (channel instanceof ThreadChannel) {
+          thread = channel;
+        }
+      } catch {
+        // Thread deleted or no access - still listed below
+      }
+
+      const chatName = await getChatName(chatId) || thread?.name || `Chat ${chatId.substring(0, 8)}`;
+      const lastActivity = this.threadLastActivity.get(threadId) ?? thread?.createdTimestamp ?? new Date(mapping.createdAt).getTime();
+      const pendingQuestion = [...this.pendingQuestions.values()].find(p => p.threadId === threadId);
+      const archived = !thread || thread.archived === true;
+
+      let state: string;
+      if (!thread) {
+        state = '⚠️ Thread missing';
+        counts.archived++;
+      } else if (pendingQuestion) {
+        state = '❓ Waiting for answer';
+        counts.waiting++;
+      } else if (await this.isChatBusy(chatId, threadId)) {
+        state = '🟢 Working';
+        counts.working++;
+      } else if (this.isExplicitlyArchived(threadId)) {
+        state = '🔒 Closed';
+        counts.archived++;
+      } else if (archived) {
+        state = '📦 Archived';
+        counts.archived++;
+      } else {
+        state = '💤 Idle';
+        counts.idle++;
+      }
+
+      const details = [state, `active <t:${Math.floor(lastActivity / 1000)}:R>`];
+      const queued = this.deliveryQueue.getQueueLength(chatId);
+      if (queued > 0) {
+        details.push(`⏳ ${queued} queued`);
+      }
+
+      let line = `**${escapeMarkdown(chatName.substring(0, 60))}** · <#${threadId}>\n${details.join(' · ')}`;
+      if (pendingQuestion) {
+        const question = pendingQuestion.question.length > 80
+          ? pendingQuestion.question.substring(0, 77) + '...'
+          : pendingQuestion.question;
+        line += `\n> ${escapeMarkdown(question.replace(/\n/g, ' '))}`;
+      }
+
+      entries.push({ line, lastActivity, archived });
+    }
+
+    // Open threads first, most recently active at the top
+    entries.sort((a, b) => Number(a.archived) - Number(b.archived) || b.lastActivity - a.lastActivity);
+
+    const container = new ContainerBuilder();
+    const workspaceName = vscode.workspace.name || 'this workspace';
+    const summary = [
+      `🟢 ${counts.working} working`,
+      `❓ ${counts.waiting} waiting`,
+      `💤 ${counts.idle} idle`,
+      `📦 ${counts.archived} archived`,
+    ].join(' · ');
+    container.addTextDisplayComponents(
+      new TextDisplayBuilder().setContent(`**📊 Agent status — ${escapeMarkdown(workspaceName)}**\n${summary}`)
+    );
+    container.addSeparatorComponents(
+      new SeparatorBuilder().setSpacing(SeparatorSpacingSize.Small)
+    );
+
+    if (entries.length === 0) {
+      container.addTextDisplayComponents(
+        new TextDisplayBuilder().setContent('_No agent chats are connected to Discord yet. Use `/new-agent` to start one._')
+      );
+      return container;
+    }
+
+    const shown = entries.slice(0, MAX_STATUS_CHATS);
+    let body = shown.map(entry => entry.line).join('\n\n');
+    if (entries.length > shown.length) {
+      body += `\n\n_…and ${entries.length - shown.length} more_`;
+    }
+    container.addTextDisplayComponents(
+      new TextDisplayBuilder().setContent(await this.redact(body, 'status summary'))
+    );
+
+    return container;
   }
 
   /**
@@ -1234,13 +2205,35 @@ export class DiscordClientManager {
   private async handleModalSubmit(interaction: Interaction): Promise<void> {
     if (!interaction.isModalSubmit()) return;
 
+    // Question answers and approval decisions come from agent threads, not the project channel
+    if (interaction.customId.startsWith('ask_q_')) {
+      await this.handleQuestionModalSubmit(interaction);
+      return;
+    }
+    if (interaction.customId.startsWith('approval_')) {
+      await this.handleApprovalDenySubmit(interaction);
+      return;
+    }
+
     // Multi-instance check: only handle if this is our configured channel
     if (interaction.channelId !== this.currentChannel?.id) {
       this.outputChannel.appendLine(`[ModalSubmit] Ignoring modal in channel ${interaction.channelId} (not our channel ${this.currentChannel?.id})`);
       return;
     }
 
-    if (interaction.customId === 'new-agent-modal') {
+    if (interaction.customId.startsWith('new-agent-modal')) {
+      // Re-check: the policy may have changed while the modal was open
+      if (!(await this.checkAccess('createAgent', interaction.user.id, interaction.member))) {
+        await interaction.reply({ content: formatAccessDenied('createAgent'), flags: MessageFlags.Ephemeral });
+        return;
+      }
+
+      const optionsKey = interaction.customId.split(':')[1];
+      const options = (optionsKey && this.pendingNewAgentOptions.get(optionsKey)) || { files: [], createdAt: Date.now() };
+      if (optionsKey) {
+        this.pendingNewAgentOptions.delete(optionsKey);
+      }
+
       const prompt = interaction.fields.getTextInputValue('prompt-input');
       this.outputChannel.appendLine(`[ModalSubmit] Received prompt: ${prompt.substring(0, 50)}...`);
 
@@ -1248,116 +2241,1587 @@ export class DiscordClientManager {
       await interaction.deferReply({ flags: MessageFlags.Ephemeral });
 
       try {
-        // Step 1: Create a new agent chat (it will be focused automatically)
-        this.outputChannel.appendLine('[ModalSubmit] Creating new agent chat...');
-        const createResult = await vscode.commands.executeCommand<{ success: boolean; error?: string }>(
-          Commands.CREATE_NEW_AGENT_CHAT
+        const outcome = await this.startNewAgentChat(
+          options,
+          prompt.split('\n')[0].trim() || 'New agent chat',
+          async (threadId) => {
+            if (threadId) {
+              await this.postNewAgentPrompt(threadId, prompt, options, interaction.user.username);
+            }
+            return prompt;
+          }
         );
 
-        if (!createResult?.success) {
-          await interaction.editReply(`❌ Failed to create agent chat: ${createResult?.error || 'Unknown error'}`);
-          return;
-        }
+        await interaction.editReply(this.formatNewAgentReply(outcome));
+        if (!outcome.error) {
+          this.outputChannel.appendLine('[ModalSubmit] Successfully started agent chat from Discord');
+        }
+
+      } catch (error: any) {
+        this.outputChannel.appendLine(`[ModalSubmit] Error: ${error.message}`);
+        await interaction.editReply(`❌ Error: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Create a new agent chat, create its thread right away,
+   * then send the prompt to the focused chat. `preparePrompt` runs once the thread
+   * exists - to show the prompt there - and returns the text to send.
+   */
+  private async startNewAgentChat(
+    options: NewAgentOptions,
+    fallbackThreadName: string,
+    preparePrompt: (threadId: string | undefined) => Promise<string>
+  ): Promise<NewAgentChatOutcome> {
+    // Step 1: Create a new agent chat (it will be focused automatically)
+    this.outputChannel.appendLine('[NewAgent] Creating new agent chat...');
+    const createResult = await vscode.commands.executeCommand<CreateNewAgentChatResult>(
+      Commands.CREATE_NEW_AGENT_CHAT
+    );
+
+    if (!createResult?.success) {
+      return { error: `❌ Failed to create agent chat: ${createResult?.error || 'Unknown error'}`, notes: [] };
+    }
+
+    const notes: string[] = [];
+
+    // Step 2: Create the thread right away, named from the options (or the prompt until Cursor names the chat)
+    let threadId: string | undefined;
+    if (createResult.chatId) {
+      const threadResult = await this.createThread({
+        chatId: createResult.chatId,
+        workspaceName: vscode.workspace.name || 'unnamed',
+        name: options.threadName || fallbackThreadName,
+        customName: !!options.threadName,
+      });
+      if (threadResult.success && threadResult.threadId) {
+        threadId = threadResult.threadId;
+      } else {
+        notes.push(`Couldn't create the thread yet: ${threadResult.error}`);
+      }
+    } else if (options.threadName) {
+      notes.push('Couldn\'t get the new chat\'s ID, so the thread will be named by Cursor');
+    }
+
+    const prompt = await preparePrompt(threadId);
+
+    this.outputChannel.appendLine('[NewAgent] Agent chat created, sending prompt...');
+
+    // Step 3: Send the prompt to the focused chat (no chat ID needed)
+    const sendParams: SendToFocusedChatParams = { message: prompt, threadId, files: options.files };
+    const sendResult = await vscode.commands.executeCommand<{ success: boolean; error?: string }>(
+      Commands.SEND_TO_FOCUSED_CHAT,
+      sendParams
+    );
+
+    if (!sendResult?.success) {
+      return { threadId, error: `⚠️ Created chat but failed to send prompt: ${sendResult?.error}`, notes };
+    }
+
+    return { threadId, notes };
+  }
+
+  private formatNewAgentReply(outcome: NewAgentChatOutcome): string {
+    if (outcome.error) {
+      return outcome.error;
+    }
+    // Without a thread, it will be created by ChatWatcher when it detects the new chat
+    const started = outcome.threadId
+      ? `✅ Started new agent chat in <#${outcome.threadId}>`
+      : '✅ Started new agent chat! A Discord thread will appear shortly.';
+    return started + outcome.notes.map(note => `\n⚠️ ${note}`).join('');
+  }
+
+  /**
+   * Show the /new-agent prompt in its thread - it was typed in a private modal,
+   * and the agent won't forward it since it arrives with the thread directive.
+   */
+  private async postNewAgentPrompt(threadId: string, prompt: string, options: NewAgentOptions, username: string): Promise<void> {
+    const details = options.files.length > 0 ? `Files: ${options.files.map(f => `\`${f}\``).join(', ')}` : '';
+
+    const message = `📝 **Prompt from ${username}:**\n${prompt.split('\n').map(line => `> ${line}`).join('\n')}`
+      + (details ? `\n-# ${details}` : '');
+    await this.postToThread({ threadId, message });
+  }
+
+  // ============ Send to Agent (message context menu) ============
+
+  /**
+   * "Send to agent" on any message in the server: offer a new agent, or a select
+   * menu of the project's active agent threads.
+   */
+  private async handleSendToAgentCommand(interaction: MessageContextMenuCommandInteraction): Promise<void> {
+    // Multi-instance check: only instances connected to this server
+    if (!this.currentChannel || interaction.guildId !== this.currentChannel.guildId) {
+      return;
+    }
+
+    this.outputChannel.appendLine('[SendToAgent] Handling "Send to agent" command');
+
+    const canPrompt = await this.checkAccess('prompt', interaction.user.id, interaction.member);
+    if (!canPrompt && !(await this.checkAccess('createAgent', interaction.user.id, interaction.member))) {
+      await interaction.reply({ content: formatAccessDenied('prompt'), flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const message = interaction.targetMessage;
+    if (!message.content && message.attachments.size === 0 && message.embeds.length === 0) {
+      await interaction.reply({ content: '❌ That message has no text, embeds or attachments to send.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    try {
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    } catch {
+      // Another project window connected to this server answered first
+      return;
+    }
+
+    this.prunePendingForwards();
+    this.pendingForwards.set(interaction.id, { message, createdAt: Date.now() });
+
+    const rows: ActionRowBuilder<ButtonBuilder | StringSelectMenuBuilder>[] = [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(`forward-new:${this.currentChannel.id}:${interaction.id}`)
+          .setLabel('Send to new agent')
+          .setEmoji('🆕')
+          .setStyle(ButtonStyle.Primary)
+      ),
+    ];
+
+    const choices = canPrompt ? await this.getActiveAgentChoices() : [];
+    if (choices.length > 0) {
+      rows.push(new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(`forward-existing:${this.currentChannel.id}:${interaction.id}`)
+          .setPlaceholder('Send to existing agent…')
+          .addOptions(choices)
+      ));
+    }
+
+    await interaction.editReply({
+      content: `📨 Send ${escapeMarkdown(message.author.username)}'s message to an agent:`
+        + (choices.length === 0 ? '\n-# No active agent threads to send it to.' : ''),
+      components: rows,
+    });
+  }
+
+  /**
+   * Select menu options for the project's open agent threads, most recently active first.
+   */
+  private async getActiveAgentChoices(): Promise<{ label: string; description: string; value: string }[]> {
+    const chatNames = await getAllChatNames();
+    const choices: { label: string; description: string; value: string; lastActivity: number }[] = [];
+
+    for (const [chatId, mapping] of this.getChatMappings()) {
+      let thread: ThreadChannel | undefined;
+      try {
+        const channel = await this.client?.channels.fetch(mapping.threadId);
+        if (channel instanceof ThreadChannel) {
+          thread = channel;
+        }
+      } catch {
+        // Thread deleted
+      }
+      if (!thread || thread.archived) {
+        continue;
+      }
+
+      const label = chatNames.get(chatId) || thread.name;
+      choices.push({
+        label: label.length > 100 ? label.substring(0, 97) + '...' : label,
+        description: `#${thread.name}`.substring(0, 100),
+        value: chatId,
+        lastActivity: this.threadLastActivity.get(thread.id) ?? thread.createdTimestamp ?? 0,
+      });
+    }
+
+    return choices
+      .sort((a, b) => b.lastActivity - a.lastActivity)
+      .slice(0, 25)
+      .map(({ label, description, value }) => ({ label, description, value }));
+  }
+
+  /**
+   * "Send to new agent": start an agent chat with the forwarded message as its prompt.
+   */
+  private async handleForwardToNewAgent(interaction: ButtonInteraction): Promise<void> {
+    if (!this.isOwnForward(interaction.customId)) {
+      return;
+    }
+
+    if (!(await this.checkAccess('createAgent', interaction.user.id, interaction.member))) {
+      await interaction.reply({ content: formatAccessDenied('createAgent'), flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const forward = this.takePendingForward(interaction.customId);
+    if (!forward) {
+      await interaction.update({ content: 'This request has expired. Use "Send to agent" again.', components: [] });
+      return;
+    }
+
+    await interaction.update({ content: '⏳ Starting a new agent...', components: [] });
+
+    try {
+      const { message } = forward;
+      const outcome = await this.startNewAgentChat(
+        { files: [], createdAt: Date.now() },
+        this.describeForwardedMessage(message),
+        async (threadId) => {
+          // Attachments go to the thread's inbox folder (or the source channel's if there's no thread)
+          const attachments = await downloadMessageAttachments(message, threadId ?? message.channelId, this.outputChannel);
+          if (threadId) {
+            await this.postForwardedMessage(threadId, message, interaction.user.username);
+          }
+          return this.formatForwardedPrompt(message, attachments);
+        }
+      );
+
+      await interaction.editReply(this.formatNewAgentReply(outcome));
+      if (!outcome.error) {
+        this.outputChannel.appendLine('[SendToAgent] Started new agent chat with forwarded message');
+      }
+    } catch (error: any) {
+      this.outputChannel.appendLine(`[SendToAgent] Error: ${error.message}`);
+      await interaction.editReply(`❌ Error: ${error.message}`);
+    }
+  }
+
+  /**
+   * "Send to existing agent…": post the message in the agent's thread and queue it
+   * for delivery like any message typed there.
+   */
+  private async handleForwardToExistingAgent(interaction: StringSelectMenuInteraction): Promise<void> {
+    if (!this.isOwnForward(interaction.customId)) {
+      return;
+    }
+
+    if (!(await this.checkAccess('prompt', interaction.user.id, interaction.member))) {
+      await interaction.reply({ content: formatAccessDenied('prompt'), flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const forward = this.takePendingForward(interaction.customId);
+    const mapping = forward && this.getChatMapping(interaction.values[0]);
+    if (!forward || !mapping) {
+      await interaction.update({ content: 'This request has expired. Use "Send to agent" again.', components: [] });
+      return;
+    }
+
+    await interaction.update({ content: '⏳ Sending...', components: [] });
+
+    try {
+      const { message } = forward;
+      const threadId = mapping.threadId;
+      const attachments = await downloadMessageAttachments(message, threadId, this.outputChannel);
+      const posted = await this.postForwardedMessage(threadId, message, interaction.user.username);
+      if (!posted) {
+        await interaction.editReply('❌ The agent\'s thread is no longer available.');
+        return;
+      }
+
+      await this.updateThreadActivity(threadId);
+      await this.clearExplicitArchive(threadId);
+      this.activeDiscordConversations.set(threadId, { userId: interaction.user.id, timestamp: Date.now() });
+      this.promptAuthors.set(threadId, interaction.user.id);
+
+      await this.inbox.add({
+        messageId: posted.id,
+        threadId,
+        author: message.author.username,
+        authorId: message.author.id,
+        content: message.content,
+        attachments,
+        timestamp: message.createdTimestamp,
+        deliveredToChat: false,
+      });
+
+      // The bot's copy in the thread stands in for the original (queue reactions go there)
+      this.deliveryQueue.enqueue(mapping.chatId, threadId, {
+        message: posted,
+        prompt: this.formatForwardedPrompt(message, attachments),
+      });
+
+      await interaction.editReply(`✅ Sent to <#${threadId}>`);
+      this.outputChannel.appendLine(`[SendToAgent] Forwarded message ${message.id} to chat ${mapping.chatId}`);
+    } catch (error: any) {
+      this.outputChannel.appendLine(`[SendToAgent] Error: ${error.message}`);
+      await interaction.editReply(`❌ Error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Quote a forwarded message in the agent's thread, so people there see what was sent.
+   */
+  private async postForwardedMessage(threadId: string, message: Message, forwardedBy: string): Promise<Message | undefined> {
+    const channel = await this.client?.channels.fetch(threadId).catch(() => null);
+    if (!(channel instanceof ThreadChannel)) {
+      return undefined;
+    }
+
+    const text = this.getForwardedText(message);
+    const quoted = text.length > MAX_FORWARD_QUOTE_LENGTH ? text.substring(0, MAX_FORWARD_QUOTE_LENGTH) + '…' : text;
+    const content = `📨 **${escapeMarkdown(forwardedBy)}** forwarded a message from **${escapeMarkdown(message.author.username)}** · ${message.url}`
+      + (quoted ? `\n${quoted.split('\n').map(line => `> ${line}`).join('\n')}` : '')
+      + (message.attachments.size > 0 ? `\n-# 📎 ${message.attachments.size} attachment(s)` : '');
+
+    return channel.send({ content: await this.redact(content, 'forwarded message'), allowedMentions: { parse: [] } });
+  }
+
+  /**
+   * The prompt sent to Cursor for a forwarded message.
+   */
+  private formatForwardedPrompt(message: Message, attachments: DownloadedAttachment[]): string {
+    const channelName = 'name' in message.channel ? `#${message.channel.name}` : 'Discord';
+    return [
+      `Forwarded Discord message from ${message.author.username} in ${channelName} (${message.url}):`,
+      this.getForwardedText(message),
+      formatAttachmentsForPrompt(attachments),
+    ].filter(part => part.length > 0).join('\n\n');
+  }
+
+  /**
+   * Message text plus its embeds (bots like CI post their details in embeds).
+   */
+  private getForwardedText(message: Message): string {
+    const embeds = message.embeds.map(embed => [
+      embed.title,
+      embed.description,
+      ...embed.fields.map(field => `${field.name}: ${field.value}`),
+      embed.url,
+    ].filter(Boolean).join('\n'));
+
+    return [message.content, ...embeds].filter(part => part.length > 0).join('\n\n');
+  }
+
+  /**
+   * Thread name for a new agent started from a forwarded message (until Cursor names the chat).
+   */
+  private describeForwardedMessage(message: Message): string {
+    const firstLine = this.getForwardedText(message).split('\n')[0].trim();
+    return firstLine || `Message from ${message.author.username}`;
+  }
+
+  /**
+   * Forward button/select IDs carry the project channel ID
+   * (forward-new:{channelId}:{key}), so only the window that offered them answers.
+   */
+  private isOwnForward(customId: string): boolean {
+    return customId.split(':')[1] === this.currentChannel?.id;
+  }
+
+  private takePendingForward(customId: string): PendingForward | undefined {
+    this.prunePendingForwards();
+    const key = customId.split(':')[2];
+    const forward = this.pendingForwards.get(key);
+    this.pendingForwards.delete(key);
+    return forward;
+  }
+
+  private prunePendingForwards(): void {
+    const now = Date.now();
+    for (const [key, forward] of this.pendingForwards) {
+      if (now - forward.createdAt > PENDING_FORWARD_TTL_MS) {
+        this.pendingForwards.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Autocomplete Cursor chats by name. The value is the chat ID; chats that
+   * already have a thread are marked with 🧵.
+   */
+  private async respondWithChatChoices(interaction: AutocompleteInteraction, value: string): Promise<void> {
+    try {
+      const query = value.trim().toLowerCase();
+      const mappings = this.getChatMappings();
+      const choices = [...(await getAllChatNames()).entries()]
+        .filter(([, name]) => name.toLowerCase().includes(query))
+        .slice(0, 25)
+        .map(([chatId, name]) => {
+          const label = mappings.has(chatId) ? `🧵 ${name}` : name;
+          return { name: label.length > 100 ? label.substring(0, 97) + '...' : label, value: chatId };
+        });
+
+      await interaction.respond(choices);
+    } catch (error: any) {
+      this.outputChannel.appendLine(`[Autocomplete] Failed to list chats: ${error.message}`);
+      await interaction.respond([]).catch(() => {});
+    }
+  }
+
+  private prunePendingNewAgentOptions(): void {
+    const now = Date.now();
+    for (const [key, options] of this.pendingNewAgentOptions) {
+      if (now - options.createdAt > NEW_AGENT_OPTIONS_TTL_MS) {
+        this.pendingNewAgentOptions.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Resolve a workspace-relative (or absolute) path to a file in the workspace.
+   * Returns the workspace-relative path, or an error if it doesn't exist, is
+   * outside the workspace folders, or matches a blocked file pattern.
+   */
+  private async resolveWorkspaceFile(input: string): Promise<{ file: string } | { error: string }> {
+    const config = await vscode.commands.executeCommand<GetConfigResult>(Commands.GET_CONFIG);
+    const deniedPatterns = config?.deniedFilePatterns ?? [];
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const uri = path.isAbsolute(input)
+        ? vscode.Uri.file(input)
+        : vscode.Uri.joinPath(folder.uri, input);
+      if (!this.isInsideFolder(uri.fsPath, folder.uri.fsPath)) {
+        continue;
+      }
+      try {
+        const stat = await vscode.workspace.fs.stat(uri);
+        if (stat.type & vscode.FileType.File) {
+          // Check both the path and where a symlink points to
+          const realPath = fs.realpathSync(uri.fsPath);
+          if (!this.isInsideFolder(realPath, fs.realpathSync(folder.uri.fsPath))) {
+            continue;
+          }
+          const deniedPattern = findDeniedPattern(uri.fsPath, deniedPatterns)
+            ?? findDeniedPattern(realPath, deniedPatterns);
+          if (deniedPattern) {
+            return { error: `Files matching \`${deniedPattern}\` can't be attached because they commonly contain secrets.` };
+          }
+          return { file: vscode.workspace.asRelativePath(uri, false) };
+        }
+      } catch {
+        // Not in this folder
+      }
+    }
+    return { error: `File not found in the workspace: \`${input}\`` };
+  }
+
+  private isInsideFolder(filePath: string, folder: string): boolean {
+    const relative = path.relative(folder, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
+  /**
+   * Suggest workspace files for /new-agent file options, and Cursor chats for /open.
+   * Only users who may run the command get suggestions (they reveal file and chat names).
+   */
+  private async handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    // Multi-instance check: only the instance owning the channel answers
+    if (!this.isOwnChannel(interaction.channelId)) {
+      return;
+    }
+
+    const right: AccessRight = interaction.commandName === 'new-agent' ? 'createAgent' : 'prompt';
+    if (!(await this.checkAccess(right, interaction.user.id, interaction.member))) {
+      await interaction.respond([]);
+      return;
+    }
+
+    const focused = interaction.options.getFocused(true);
+
+    if (interaction.commandName === 'open' && focused.name === 'chat') {
+      await this.respondWithChatChoices(interaction, focused.value);
+      return;
+    }
+
+    if (interaction.commandName !== 'new-agent' || !NEW_AGENT_FILE_OPTIONS.includes(focused.name)) {
+      await interaction.respond([]);
+      return;
+    }
+
+    try {
+      // Strip glob syntax from the typed text and match it anywhere in the path
+      const query = focused.value.replace(/[*?{}[\]!]/g, '').trim();
+      const include = query ? `**/*${query}*` : '**/*';
+      const uris = await vscode.workspace.findFiles(include, '**/{node_modules,.git,out,dist}/**', 25);
+
+      const choices = uris
+        .map(uri => vscode.workspace.asRelativePath(uri, false))
+        .filter(file => file.length <= 100) // Discord limit for choice names/values
+        .sort((a, b) => a.length - b.length)
+        .map(file => ({ name: file, value: file }));
+
+      await interaction.respond(choices);
+    } catch (error: any) {
+      this.outputChannel.appendLine(`[Autocomplete] Failed to find files: ${error.message}`);
+      await interaction.respond([]).catch(() => {});
+    }
+  }
+
+  /**
+   * Handle button interactions for ask_question responses.
+   */
+  private async handleButtonInteraction(interaction: Interaction): Promise<void> {
+    if (!interaction.isButton()) return;
+
+    const customId = interaction.customId;
+
+    if (customId.startsWith('forward-new:')) {
+      await this.handleForwardToNewAgent(interaction);
+      return;
+    }
+
+    if (customId.startsWith('approval_')) {
+      await this.handleApprovalButton(interaction);
+      return;
+    }
+    
+    // Check if this is for one of our pending questions
+    // Custom IDs are formatted as: ask_q_{messageId}_{optionId} or ask_q_{messageId}_submit
+    // (text questions: _reply, confirm questions: _approve/_reject)
+    if (!customId.startsWith('ask_q_')) return;
+
+    const parts = customId.split('_');
+    if (parts.length < 4) return;
+
+    const messageId = parts[2];
+    const action = parts.slice(3).join('_'); // Option ID or 'submit'
+
+    const pending = this.pendingQuestions.get(messageId);
+    if (!pending) {
+      // Question may have timed out or been answered
+      await interaction.reply({ content: 'This question has expired or already been answered.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (!(await this.checkAccess('answer', interaction.user.id, interaction.member))) {
+      await interaction.reply({ content: formatAccessDenied('answer'), flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (!(await this.checkQuestionResponder(interaction, pending))) return;
+
+    // Answered or expired while the checks above were waiting
+    if (!this.isQuestionPending(pending)) {
+      await interaction.reply({ content: 'This question has expired or already been answered.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (pending.fields) {
+      await this.handleFormButton(interaction, pending, pending.fields, action);
+      return;
+    }
+
+    if (pending.kind === 'text') {
+      await interaction.showModal(this.buildQuestionModal(pending, 'reply'));
+      return;
+    }
+
+    if (action === QUESTION_TYPED_REPLY_ACTION && !pending.options.some(option => option.id === action)) {
+      pending.replyingUserIds = (pending.replyingUserIds ?? new Set()).add(interaction.user.id);
+      await interaction.reply({ content: 'Send your answer as your next message in this thread.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (pending.kind === 'confirm') {
+      if (action === 'reject') {
+        // Ask for an optional reason first
+        await interaction.showModal(this.buildQuestionModal(pending, 'reject'));
+        return;
+      }
+      await this.resolveQuestion(pending, {
+        success: true,
+        responseType: 'confirm',
+        confirmed: true,
+      }, interaction.user);
+      await interaction.reply({ content: 'You approved.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (pending.allowMultiple) {
+      // Multi-select mode
+      if (action === 'submit') {
+        // User submitted their selection
+        const selectedIds = Array.from(pending.selectedOptions);
+        await this.resolveQuestion(pending, {
+          success: true,
+          responseType: 'option',
+          selectedOptionIds: selectedIds,
+        }, interaction.user);
+        await interaction.reply({ content: `Selection submitted: ${selectedIds.length} option(s) selected.`, flags: MessageFlags.Ephemeral });
+      } else {
+        // Toggle selection
+        if (pending.selectedOptions.has(action)) {
+          pending.selectedOptions.delete(action);
+        } else {
+          pending.selectedOptions.add(action);
+        }
+        await this.savePendingQuestions();
+        // Update the message to show current selection
+        await this.updateQuestionMessage(pending);
+        await interaction.deferUpdate();
+      }
+    } else {
+      // Single-select mode - resolve immediately
+      // Track the selected option so disableQuestionButtons can show it
+      pending.selectedOptions.add(action);
+      await this.resolveQuestion(pending, {
+        success: true,
+        responseType: 'option',
+        selectedOptionIds: [action],
+      }, interaction.user);
+      await interaction.reply({ content: `You selected: ${pending.options.find(o => o.id === action)?.label || action}`, flags: MessageFlags.Ephemeral });
+    }
+  }
+
+  /**
+   * Handle a choice in a select question.
+   */
+  private async handleQuestionSelect(interaction: StringSelectMenuInteraction): Promise<void> {
+    const messageId = interaction.customId.split('_')[2];
+    const pending = this.pendingQuestions.get(messageId);
+    if (!pending) {
+      await interaction.reply({ content: 'This question has expired or already been answered.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (!(await this.checkAccess('answer', interaction.user.id, interaction.member))) {
+      await interaction.reply({ content: formatAccessDenied('answer'), flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (!(await this.checkQuestionResponder(interaction, pending))) return;
+
+    // Answered or expired while the checks above were waiting
+    if (!this.isQuestionPending(pending)) {
+      await interaction.reply({ content: 'This question has expired or already been answered.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (pending.fields) {
+      const field = pending.fields[this.parseFormFieldIndex(interaction.customId)];
+      if (!field) return;
+      field.selectedOptions = new Set(interaction.values);
+      await this.savePendingQuestions();
+      await interaction.update({ components: this.buildFormComponents(pending, pending.fields, false) });
+      return;
+    }
+
+    // Track the selection so disableQuestionButtons can show it
+    pending.selectedOptions = new Set(interaction.values);
+    await this.resolveQuestion(pending, {
+      success: true,
+      responseType: 'option',
+      selectedOptionIds: interaction.values,
+    }, interaction.user);
+
+    const labels = interaction.values.map(id => pending.options.find(o => o.id === id)?.label || id).join(', ');
+    await interaction.reply({ content: `You selected: ${labels}`, flags: MessageFlags.Ephemeral });
+  }
+
+  /**
+   * Text input modal for a text question's Reply button, or a confirm question's Reject button.
+   */
+  private buildQuestionModal(pending: PendingQuestion, action: 'reply' | 'reject'): ModalBuilder {
+    const input = new TextInputBuilder()
+      .setCustomId('answer-input')
+      .setStyle(TextInputStyle.Paragraph);
+
+    if (action === 'reply') {
+      input.setLabel('Your answer').setRequired(true).setMinLength(1).setMaxLength(4000);
+    } else {
+      input.setLabel('Reason (optional)').setRequired(false).setMaxLength(1000);
+    }
+
+    // Modal titles are limited to 45 characters
+    const title = pending.question.length > 45 ? pending.question.substring(0, 42) + '...' : pending.question;
+
+    return new ModalBuilder()
+      .setCustomId(`ask_q_${pending.messageId}_${action}`)
+      .setTitle(title || (action === 'reply' ? 'Answer' : 'Reject'))
+      .addComponents(new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(input));
+  }
+
+  /**
+   * Handle the answer typed into a question modal.
+   */
+  private async handleQuestionModalSubmit(interaction: ModalSubmitInteraction): Promise<void> {
+    const parts = interaction.customId.split('_');
+    const messageId = parts[2];
+    const action = parts[3];
+
+    const pending = this.pendingQuestions.get(messageId);
+    if (!pending) {
+      await interaction.reply({ content: 'This question has expired or already been answered.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (!(await this.checkAccess('answer', interaction.user.id, interaction.member))) {
+      await interaction.reply({ content: formatAccessDenied('answer'), flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (!(await this.checkQuestionResponder(interaction, pending))) return;
+
+    // Answered or expired while the checks above were waiting
+    if (!this.isQuestionPending(pending)) {
+      await interaction.reply({ content: 'This question has expired or already been answered.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const text = interaction.fields.getTextInputValue('answer-input').trim();
+
+    if (pending.fields) {
+      const field = pending.fields[this.parseFormFieldIndex(interaction.customId)];
+      if (!field) return;
+      field.textResponse = text || undefined;
+      await this.savePendingQuestions();
+      if (interaction.isFromMessage()) {
+        await interaction.update({ components: this.buildFormComponents(pending, pending.fields, false) });
+      } else {
+        await interaction.reply({ content: 'Answer saved.', flags: MessageFlags.Ephemeral });
+      }
+      return;
+    }
+
+    if (action === 'reject') {
+      await this.resolveQuestion(pending, {
+        success: true,
+        responseType: 'confirm',
+        confirmed: false,
+        textResponse: text || undefined,
+      }, interaction.user);
+      await interaction.reply({ content: 'You rejected.', flags: MessageFlags.Ephemeral });
+    } else {
+      await this.resolveQuestion(pending, {
+        success: true,
+        responseType: 'text',
+        textResponse: text,
+      }, interaction.user);
+      await interaction.reply({ content: 'Answer sent.', flags: MessageFlags.Ephemeral });
+    }
+  }
+
+  // ============ Approvals ============
+
+  /**
+   * Post an approval request for a destructive agent action and wait for an approver
+   * to approve or deny it. Every decision (including expiry) is written to the approval log.
+   */
+  async requestApproval(params: RequestApprovalParams): Promise<RequestApprovalResult> {
+    if (!this.client) {
+      return { success: false, error: 'Not connected' };
+    }
+
+    if (!params.threadId || !params.action) {
+      return { success: false, error: 'Missing threadId or action' };
+    }
+
+    const config = await vscode.commands.executeCommand<GetConfigResult>(Commands.GET_CONFIG);
+    const approvers = config?.accessPolicy?.rules.approve;
+    if (!approvers || !hasApprovers(config?.accessPolicy)) {
+      return { success: false, error: 'No approvers configured - add users or roles under Settings → Security → Approvers' };
+    }
+
+    const threadId = params.threadId;
+    const timeoutMs = params.timeoutMs || APPROVAL_TIMEOUT_MS;
+
+    try {
+      const thread = await this.client.channels.fetch(threadId);
+      if (!(thread instanceof ThreadChannel)) {
+        return { success: false, error: `Thread ${threadId} not found` };
+      }
+
+      const context = `approval request in thread ${threadId}`;
+      const requestedAt = Date.now();
+      const pending: PendingApproval = {
+        threadId,
+        messageId: '',
+        action: await this.redact(params.action, context),
+        details: params.details ? await this.redact(params.details, context) : undefined,
+        preview: params.preview ? await this.redact(params.preview, context) : undefined,
+        previewLanguage: params.previewLanguage,
+        requestedAt,
+        expiresAt: requestedAt + timeoutMs,
+      };
+
+      // Ping the approvers; the buttons need the message ID, so they're added once it's sent
+      const mentions = [
+        ...approvers.userIds.map(id => `<@${id}>`),
+        ...approvers.roleIds.map(id => `<@&${id}>`),
+      ].join(' ');
+      const message = await thread.send({
+        content: mentions || undefined,
+        embeds: [this.buildApprovalEmbed(pending)],
+        allowedMentions: { users: approvers.userIds, roles: approvers.roleIds },
+      });
+      pending.messageId = message.id;
+      await message.edit({ components: [this.buildApprovalButtons(message.id)] });
+
+      return new Promise<RequestApprovalResult>((resolve) => {
+        pending.resolve = resolve;
+        pending.timeout = setTimeout(() => {
+          const current = this.pendingApprovals.get(message.id);
+          if (current) {
+            this.decideApproval(current, 'expired');
+          }
+        }, timeoutMs);
+        this.pendingApprovals.set(message.id, pending);
+        this.savePendingApprovals();
+
+        this.outputChannel.appendLine(`[Approvals] Requested approval for "${pending.action}" in thread ${threadId} (message: ${message.id})`);
+      });
+    } catch (error: any) {
+      this.outputChannel.appendLine(`[Approvals] Failed to request approval: ${error.message}`);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * The approval request embed: action summary, details and preview, and the status or decision.
+   */
+  private buildApprovalEmbed(pending: PendingApproval, decision?: { text: string; color: number }): EmbedBuilder {
+    const details = pending.details && pending.details.length > 3000
+      ? pending.details.substring(0, 3000) + '…'
+      : pending.details;
+
+    const embed = new EmbedBuilder()
+      .setTitle('🔐 Approval required')
+      .setDescription(`**${pending.action}**${details ? `\n\n${details}` : ''}`)
+      .setColor(decision?.color ?? 0xfee75c)
+      .setTimestamp(pending.requestedAt);
+
+    if (pending.preview) {
+      const preview = pending.preview.length > MAX_APPROVAL_PREVIEW_LENGTH
+        ? pending.preview.substring(0, MAX_APPROVAL_PREVIEW_LENGTH) + '\n…'
+        : pending.preview;
+      // Break up fences in the preview so it can't close the code block early
+      const fenced = '```' + (pending.previewLanguage || '') + '\n' + preview.replace(/```/g, '`\u200b``') + '\n```';
+      embed.addFields({ name: 'Preview', value: fenced });
+    }
+
+    embed.addFields(decision
+      ? { name: 'Decision', value: decision.text }
+      : { name: 'Status', value: `Waiting for an approver - expires <t:${Math.floor(pending.expiresAt / 1000)}:R>` });
+    return embed;
+  }
+
+  private buildApprovalButtons(messageId: string): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`approval_${messageId}_approve`)
+        .setLabel('Approve')
+        .setEmoji('✅')
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(`approval_${messageId}_deny`)
+        .setLabel('Deny')
+        .setEmoji('✖️')
+        .setStyle(ButtonStyle.Danger)
+    );
+  }
+
+  /**
+   * Handle Approve / Deny on an approval request. Deny asks for an optional reason first.
+   */
+  private async handleApprovalButton(interaction: ButtonInteraction): Promise<void> {
+    // Custom IDs are formatted as: approval_{messageId}_{approve|deny}
+    const [, messageId, action] = interaction.customId.split('_');
+
+    const pending = this.pendingApprovals.get(messageId);
+    if (!pending) {
+      // Another window may own it - only answer for our own threads
+      if (this.isOwnChannel(interaction.channelId)) {
+        await interaction.reply({ content: 'This approval request has expired or already been decided.', flags: MessageFlags.Ephemeral });
+      }
+      return;
+    }
+
+    if (!(await this.checkApprover(interaction))) return;
+
+    // Decided or expired while the approver check was waiting
+    if (!this.pendingApprovals.has(messageId)) {
+      await interaction.reply({ content: 'This approval request has expired or already been decided.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (action === 'deny') {
+      const input = new TextInputBuilder()
+        .setCustomId('reason-input')
+        .setLabel('Reason (optional)')
+        .setStyle(TextInputStyle.Paragraph)
+        .setRequired(false)
+        .setMaxLength(1000);
+      await interaction.showModal(new ModalBuilder()
+        .setCustomId(`approval_${messageId}_deny`)
+        .setTitle('Deny action')
+        .addComponents(new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(input)));
+      return;
+    }
+
+    await this.decideApproval(pending, 'approved', interaction.user);
+    await interaction.reply({ content: 'You approved this action.', flags: MessageFlags.Ephemeral });
+  }
+
+  private async handleApprovalDenySubmit(interaction: ModalSubmitInteraction): Promise<void> {
+    const messageId = interaction.customId.split('_')[1];
+    const pending = this.pendingApprovals.get(messageId);
+    if (!pending) {
+      await interaction.reply({ content: 'This approval request has expired or already been decided.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    // Re-check: the policy may have changed while the modal was open
+    if (!(await this.checkApprover(interaction))) return;
+
+    // Decided or expired while the modal was open or the approver check was waiting
+    if (!this.pendingApprovals.has(messageId)) {
+      await interaction.reply({ content: 'This approval request has expired or already been decided.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const reason = interaction.fields.getTextInputValue('reason-input').trim();
+    await this.decideApproval(pending, 'denied', interaction.user, reason || undefined);
+    await interaction.reply({ content: 'You denied this action.', flags: MessageFlags.Ephemeral });
+  }
+
+  /**
+   * Check that the user clicking an approval button is an approver, and tell them if not.
+   */
+  private async checkApprover(interaction: ButtonInteraction | ModalSubmitInteraction): Promise<boolean> {
+    const config = await vscode.commands.executeCommand<GetConfigResult>(Commands.GET_CONFIG);
+    if (isApprover(config?.accessPolicy, interaction.user.id, getMemberRoleIds(interaction.member))) {
+      return true;
+    }
+    this.outputChannel.appendLine(`[Access] Denied approve for user ${interaction.user.id}`);
+    await interaction.reply({ content: formatAccessDenied('approve'), flags: MessageFlags.Ephemeral });
+    return false;
+  }
+
+  /**
+   * Record a decision: update the request message, write it to the approval log and
+   * return it to the waiting agent. Callers check the request is still pending right
+   * before calling - it's removed before the first await, so it's only decided once.
+   */
+  private async decideApproval(
+    pending: PendingApproval,
+    decision: ApprovalDecision,
+    decidedBy?: { id: string; username: string },
+    reason?: string
+  ): Promise<void> {
+    clearTimeout(pending.timeout);
+    this.pendingApprovals.delete(pending.messageId);
+    await this.savePendingApprovals();
+
+    const by = decidedBy ? ` by ${decidedBy.username}` : '';
+    const outcomes: Record<ApprovalDecision, { text: string; color: number }> = {
+      approved: { text: `✅ Approved${by}`, color: 0x57f287 },
+      denied: { text: `❌ Denied${by}${reason ? `: ${reason}` : ''}`, color: 0xed4245 },
+      expired: { text: pending.resolve ? '⌛ Expired - nobody approved in time' : '⌛ Expired - Cursor restarted before a decision', color: 0x99aab5 },
+      cancelled: { text: `🛑 Cancelled${by}`, color: 0x99aab5 },
+    };
+
+    if (this.client) {
+      try {
+        const thread = await this.client.channels.fetch(pending.threadId);
+        if (thread instanceof ThreadChannel) {
+          const message = await thread.messages.fetch(pending.messageId);
+          await message.edit({ embeds: [this.buildApprovalEmbed(pending, outcomes[decision])], components: [] });
+        }
+      } catch (error: any) {
+        this.outputChannel.appendLine(`[Approvals] Failed to update approval request ${pending.messageId}: ${error.message}`);
+      }
+    }
+
+    await appendApprovalRecord({
+      id: pending.messageId,
+      workspace: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+      threadId: pending.threadId,
+      chatId: this.getMappingForThread(pending.threadId)?.chatId,
+      action: pending.action,
+      details: pending.details,
+      preview: pending.preview,
+      requestedAt: new Date(pending.requestedAt).toISOString(),
+      decidedAt: new Date().toISOString(),
+      decision,
+      decidedBy: decidedBy ? { id: decidedBy.id, username: decidedBy.username } : undefined,
+      reason,
+    }, this.context, this.outputChannel);
+    vscode.commands.executeCommand(Commands.ADD_LOG, `Approval ${decision}${by}: ${pending.action}`);
+
+    pending.resolve?.({
+      success: true,
+      approved: decision === 'approved',
+      decision,
+      approverId: decidedBy?.id,
+      approverUsername: decidedBy?.username,
+      reason,
+    });
+  }
+
+  // ============ Ask Questions (forms) ============
+
+  /**
+   * Post several questions as one form and wait for it to be submitted. On timeout,
+   * the answers given so far are returned with `submitted: false`.
+   */
+  async askQuestions(params: AskQuestionsParams): Promise<AskQuestionResult> {
+    if (!this.client) {
+      return { success: false, error: 'Not connected' };
+    }
+
+    if (!params.threadId) {
+      return { success: false, error: 'No thread ID provided' };
+    }
+
+    const validationError = this.validateForm(params);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const threadId = params.threadId;
+    const timeoutMs = params.timeoutMs || ASK_QUESTION_TIMEOUT_MS;
+
+    try {
+      const thread = await this.client.channels.fetch(threadId);
+      if (!(thread instanceof ThreadChannel)) {
+        return { success: false, error: `Thread ${threadId} not found` };
+      }
+
+      // Question and option IDs are returned to the agent unchanged; only displayed text is redacted
+      const context = `form in thread ${threadId}`;
+      const fields: FormField[] = [];
+      for (const question of params.questions) {
+        const kind = question.kind || 'buttons';
+        const options: AskQuestionOption[] = [];
+        for (const option of (kind === 'text' ? [] : question.options ?? [])) {
+          options.push({ ...option, label: await this.redact(option.label, context) });
+        }
+        fields.push({
+          id: question.id,
+          question: await this.redact(question.question, context),
+          kind,
+          options,
+          allowMultiple: question.allowMultiple || false,
+          required: question.required !== false,
+          selectedOptions: new Set(),
+        });
+      }
+
+      const pending: PendingQuestion = {
+        threadId,
+        messageId: `temp_${Date.now()}`,
+        question: await this.redact(params.title || 'Questions', context),
+        kind: 'buttons',
+        options: [],
+        allowMultiple: false,
+        selectedOptions: new Set(),
+        fields,
+        allowedResponderIds: await this.getAllowedResponders(threadId, params.allowedResponderIds),
+        expiresAt: Date.now() + timeoutMs,
+      };
+
+      // Send with placeholder IDs, then update the components with the real message ID
+      const message = await thread.send({
+        components: this.buildFormComponents(pending, fields, false),
+        flags: MessageFlags.IsComponentsV2,
+      });
+      pending.messageId = message.id;
+      await message.edit({ components: this.buildFormComponents(pending, fields, false) });
+
+      return new Promise<AskQuestionResult>((resolve) => {
+        pending.resolve = resolve;
+        this.pendingQuestions.set(message.id, pending);
+        this.scheduleQuestionTimers(pending);
+        this.savePendingQuestions();
+
+        this.outputChannel.appendLine(`Posted form with ${fields.length} question(s) in thread ${threadId}, waiting for submit (message: ${message.id})`);
+      });
+    } catch (error: any) {
+      this.outputChannel.appendLine(`Failed to ask questions: ${error.message}`);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Check a form against Discord's limits. Returns an error message, or undefined if valid.
+   */
+  private validateForm(params: AskQuestionsParams): string | undefined {
+    if (!params.questions || params.questions.length === 0) {
+      return 'No questions provided';
+    }
+    if (params.questions.length > 5) {
+      return 'A form supports up to 5 questions';
+    }
+    if (new Set(params.questions.map(q => q.id)).size !== params.questions.length) {
+      return 'Question IDs must be unique';
+    }
+
+    // Container, title, submit section (3) and its separator
+    let components = 5;
+    for (const question of params.questions) {
+      const kind = question.kind || 'buttons';
+      const optionCount = question.options?.length ?? 0;
+      if (kind !== 'text' && optionCount === 0) {
+        return `Question "${question.id}" has no options`;
+      }
+      if (kind === 'buttons' && optionCount > MAX_FORM_BUTTON_OPTIONS) {
+        return `Question "${question.id}" has more than ${MAX_FORM_BUTTON_OPTIONS} options - use kind "select"`;
+      }
+      if (kind === 'select' && optionCount > 25) {
+        return `Question "${question.id}" has more than 25 options`;
+      }
+
+      // Separator + label, then: a button per option plus their rows / select menu and its row / reply section
+      components += 2;
+      if (kind === 'buttons') {
+        components += optionCount + Math.ceil(optionCount / 5);
+      } else if (kind === 'select') {
+        components += 2;
+      } else {
+        components += 2; // The label is the section's text
+      }
+    }
+
+    if (components > MAX_FORM_COMPONENTS) {
+      return 'The form is too large for one Discord message - use fewer questions, or select menus for long option lists';
+    }
+    return undefined;
+  }
+
+  /**
+   * Build the Components V2 form: a labelled input per question and a Submit button.
+   */
+  private buildFormComponents(pending: PendingQuestion, fields: FormField[], disabled: boolean): any[] {
+    const container = new ContainerBuilder();
+    container.addTextDisplayComponents(
+      new TextDisplayBuilder().setContent(`**📋 ${pending.question}**`)
+    );
+
+    fields.forEach((field, index) => {
+      const customIdPrefix = `ask_q_${pending.messageId}_f${index}`;
+      const label = `**${index + 1}. ${field.question}**${field.required ? '' : ' *(optional)*'}`;
+
+      container.addSeparatorComponents(
+        new SeparatorBuilder().setSpacing(SeparatorSpacingSize.Small)
+      );
+
+      if (field.kind === 'text') {
+        const preview = field.textResponse
+          ? `> ${(field.textResponse.length > 200 ? field.textResponse.substring(0, 200) + '…' : field.textResponse).replace(/\n/g, ' ')}`
+          : '*No answer yet*';
+        container.addSectionComponents(
+          new SectionBuilder()
+            .addTextDisplayComponents(
+              new TextDisplayBuilder().setContent(`${label}\n${preview}`)
+            )
+            .setButtonAccessory(
+              new ButtonBuilder()
+                .setCustomId(`${customIdPrefix}_reply`)
+                .setLabel(field.textResponse ? 'Edit' : 'Answer')
+                .setStyle(ButtonStyle.Secondary)
+                .setDisabled(disabled)
+            )
+        );
+        return;
+      }
+
+      container.addTextDisplayComponents(new TextDisplayBuilder().setContent(label));
+
+      if (field.kind === 'select') {
+        this.addQuestionSelectMenu(container, field.options, field.allowMultiple, field.selectedOptions, disabled, `${customIdPrefix}_select`);
+        return;
+      }
+
+      // Up to 5 buttons per row
+      for (let i = 0; i < field.options.length; i += 5) {
+        container.addActionRowComponents(
+          new ActionRowBuilder<ButtonBuilder>().addComponents(
+            field.options.slice(i, i + 5).map(option => new ButtonBuilder()
+              .setCustomId(`${customIdPrefix}_${option.id}`)
+              .setLabel(option.label.length > 80 ? option.label.substring(0, 77) + '...' : option.label)
+              .setStyle(field.selectedOptions.has(option.id) ? ButtonStyle.Success : ButtonStyle.Secondary)
+              .setDisabled(disabled))
+          )
+        );
+      }
+    });
+
+    const answered = fields.filter(field => this.isFormFieldAnswered(field)).length;
+    container.addSeparatorComponents(
+      new SeparatorBuilder().setSpacing(SeparatorSpacingSize.Small)
+    );
+    container.addSectionComponents(
+      new SectionBuilder()
+        .addTextDisplayComponents(
+          new TextDisplayBuilder().setContent(`*${answered}/${fields.length} answered - click Submit when ready*\n${this.formatQuestionDeadline(pending)}`)
+        )
+        .setButtonAccessory(
+          new ButtonBuilder()
+            .setCustomId(`ask_q_${pending.messageId}_submit`)
+            .setLabel('Submit')
+            .setStyle(ButtonStyle.Primary)
+            .setDisabled(disabled)
+        )
+    );
+
+    return [container];
+  }
+
+  /**
+   * Handle a form button: an option toggle, a text question's Answer button, or Submit.
+   */
+  private async handleFormButton(
+    interaction: ButtonInteraction,
+    pending: PendingQuestion,
+    fields: FormField[],
+    action: string
+  ): Promise<void> {
+    if (action === 'submit') {
+      const missing = fields.filter(field => field.required && !this.isFormFieldAnswered(field));
+      if (missing.length > 0) {
+        await interaction.reply({
+          content: `Please answer first: ${missing.map(field => field.question).join(', ')}`,
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      await this.resolveQuestion(pending, {
+        success: true,
+        responseType: 'form',
+        answers: this.collectFormAnswers(fields),
+        submitted: true,
+      }, interaction.user);
+      await interaction.reply({ content: 'Form submitted.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const index = this.parseFormFieldIndex(interaction.customId);
+    const field = fields[index];
+    if (!field) return;
+
+    if (field.kind === 'text') {
+      const input = new TextInputBuilder()
+        .setCustomId('answer-input')
+        .setLabel('Your answer')
+        .setStyle(TextInputStyle.Paragraph)
+        .setRequired(false)
+        .setMaxLength(4000);
+      if (field.textResponse) {
+        input.setValue(field.textResponse);
+      }
+
+      await interaction.showModal(new ModalBuilder()
+        .setCustomId(`ask_q_${pending.messageId}_f${index}_reply`)
+        .setTitle(field.question.length > 45 ? field.question.substring(0, 42) + '...' : field.question)
+        .addComponents(new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(input)));
+      return;
+    }
+
+    // Option ID is everything after ask_q_{messageId}_f{index}_
+    const optionId = action.split('_').slice(1).join('_');
+    if (field.allowMultiple) {
+      if (field.selectedOptions.has(optionId)) {
+        field.selectedOptions.delete(optionId);
+      } else {
+        field.selectedOptions.add(optionId);
+      }
+    } else {
+      field.selectedOptions = new Set([optionId]);
+    }
+
+    await this.savePendingQuestions();
+    await interaction.update({ components: this.buildFormComponents(pending, fields, false) });
+  }
+
+  /** Field index from a form custom ID (ask_q_{messageId}_f{index}_...) */
+  private parseFormFieldIndex(customId: string): number {
+    return parseInt(customId.split('_')[3]?.substring(1) ?? '', 10);
+  }
+
+  private isFormFieldAnswered(field: FormField): boolean {
+    return field.kind === 'text' ? !!field.textResponse : field.selectedOptions.size > 0;
+  }
+
+  private collectFormAnswers(fields: FormField[]): Record<string, FormAnswer> {
+    const answers: Record<string, FormAnswer> = {};
+    for (const field of fields) {
+      if (!this.isFormFieldAnswered(field)) continue;
+      answers[field.id] = field.kind === 'text'
+        ? { textResponse: field.textResponse }
+        : { selectedOptionIds: [...field.selectedOptions] };
+    }
+    return answers;
+  }
+
+  /**
+   * Answers as "question: answer" lines, for the answered form and late answers.
+   */
+  private formatFormAnswers(fields: FormField[]): string {
+    return fields.map(field => {
+      const answer = field.kind === 'text'
+        ? field.textResponse
+        : field.options.filter(option => field.selectedOptions.has(option.id)).map(option => option.label).join(', ');
+      return `**${field.question}**\n${answer ? `✅ ${answer}` : '▫️ *No answer*'}`;
+    }).join('\n');
+  }
+
+  /**
+   * Whether a question is still waiting for an answer. Interaction handlers check again
+   * after their awaits, since another answer or the timeout may have resolved it meanwhile.
+   */
+  private isQuestionPending(pending: PendingQuestion): boolean {
+    return this.pendingQuestions.get(pending.messageId) === pending;
+  }
+
+  /**
+   * Resolve a pending question with the given result.
+   * Returns false if it was already answered, expired or cancelled.
+   */
+  private async resolveQuestion(
+    pending: PendingQuestion,
+    result: AskQuestionResult,
+    answeredBy?: { id: string; username: string }
+  ): Promise<boolean> {
+    // Remove from pending before any await, so concurrent answers can't both resolve it
+    if (!this.isQuestionPending(pending)) {
+      return false;
+    }
+    this.pendingQuestions.delete(pending.messageId);
+
+    // Clear timeout, reminders and escalation
+    this.clearQuestionTimers(pending);
+
+    if (answeredBy) {
+      result = { ...result, responderId: answeredBy.id, responderUsername: answeredBy.username };
+    }
+    
+    await this.savePendingQuestions();
+    
+    // Update the message to show it's been answered
+    await this.disableQuestionButtons(pending, this.describeAnswer(result, answeredBy));
+    
+    // Resolve the promise
+    if (pending.resolve) {
+      pending.resolve(result);
+    } else if (result.success) {
+      // Asked before a restart - the agent stopped waiting, so send the answer as a new prompt
+      await this.deliverLateAnswer(pending, result, answeredBy);
+    }
+    return true;
+  }
+
+  /**
+   * Note shown under an answered question. Option answers are shown by the ✅ markers instead.
+   */
+  private describeAnswer(result: AskQuestionResult, answeredBy?: { username: string }): string | undefined {
+    const by = answeredBy ? ` by ${answeredBy.username}` : '';
+    if (result.cancelled) {
+      return '🛑 Cancelled';
+    }
+    if (result.responseType === 'form') {
+      return `📋 Submitted${by}`;
+    }
+    if (result.responseType === 'confirm') {
+      return result.confirmed
+        ? `✅ Approved${by}`
+        : `❌ Rejected${by}${result.textResponse ? `: ${result.textResponse}` : ''}`;
+    }
+    if (result.responseType === 'text' && result.textResponse) {
+      const text = result.textResponse.length > 200 ? result.textResponse.substring(0, 200) + '…' : result.textResponse;
+      return `💬 Answered${by}: ${text.replace(/\n/g, ' ')}`;
+    }
+    return undefined;
+  }
+
+  private formatLateAnswer(pending: PendingQuestion, result: AskQuestionResult): string {
+    if (result.responseType === 'confirm') {
+      return result.confirmed ? 'Approved' : `Rejected${result.textResponse ? ` - reason: ${result.textResponse}` : ''}`;
+    }
+    if (result.responseType === 'text') {
+      return result.textResponse || '';
+    }
+    if (result.responseType === 'form' && pending.fields) {
+      return this.formatFormAnswers(pending.fields).replace(/\*/g, '');
+    }
+    const selected = pending.options
+      .filter(option => result.selectedOptionIds?.includes(option.id))
+      .map(option => `${option.label} (id: ${option.id})`)
+      .join(', ');
+    return result.autoSelected ? `${selected} - the default, nobody answered in time` : selected;
+  }
+
+  /**
+   * Time out a pending question.
+   */
+  private async expireQuestion(messageId: string): Promise<void> {
+    const pending = this.pendingQuestions.get(messageId);
+    if (!pending) return;
+
+    this.clearQuestionTimers(pending);
+    this.pendingQuestions.delete(messageId);
+    await this.savePendingQuestions();
+
+    const defaultOption = pending.options.find(option => option.id === pending.defaultOptionId);
+    if (defaultOption) {
+      pending.selectedOptions = new Set([defaultOption.id]);
+      await this.disableQuestionButtons(pending, `⌛ No answer in time - auto-selected **${defaultOption.label}**`);
+
+      const result: AskQuestionResult = {
+        success: true,
+        responseType: 'option',
+        selectedOptionIds: [defaultOption.id],
+        autoSelected: true,
+      };
+      if (pending.resolve) {
+        pending.resolve(result);
+      } else {
+        await this.deliverLateAnswer(pending, result);
+      }
+      return;
+    }
+
+    await this.disableQuestionButtons(pending, '⌛ Expired - no answer in time');
 
-        this.outputChannel.appendLine('[ModalSubmit] Agent chat created, sending prompt...');
+    // Forms return whatever was answered before the timeout
+    const answers = pending.fields && this.collectFormAnswers(pending.fields);
+    if (answers && Object.keys(answers).length > 0) {
+      pending.resolve?.({ success: true, responseType: 'form', answers, submitted: false });
+      return;
+    }
 
-        // Step 2: Send the prompt to the focused chat (no chat ID needed)
-        const sendResult = await vscode.commands.executeCommand<{ success: boolean; error?: string }>(
-          Commands.SEND_TO_FOCUSED_CHAT,
-          { message: prompt }
-        );
+    pending.resolve?.({
+      success: false,
+      error: 'Question timed out waiting for response',
+    });
+  }
 
-        if (!sendResult?.success) {
-          await interaction.editReply(`⚠️ Created chat but failed to send prompt: ${sendResult?.error}`);
-          return;
-        }
+  /**
+   * Start a pending question's timers: expiry, and the optional reminders and escalation.
+   */
+  private scheduleQuestionTimers(pending: PendingQuestion): void {
+    const messageId = pending.messageId;
+    pending.timeout = setTimeout(() => this.expireQuestion(messageId), Math.max(pending.expiresAt - Date.now(), 0));
 
-        // Success! Thread will be created by ChatWatcher when it detects the new chat
-        await interaction.editReply(`✅ Started new agent chat! A Discord thread will appear shortly.`);
-        this.outputChannel.appendLine('[ModalSubmit] Successfully started agent chat from Discord');
+    if (pending.reminderIntervalMs) {
+      const interval = Math.max(pending.reminderIntervalMs, MIN_QUESTION_REMINDER_MS);
+      pending.reminder = setInterval(() => this.remindQuestion(messageId), interval);
+    }
 
-      } catch (error: any) {
-        this.outputChannel.appendLine(`[ModalSubmit] Error: ${error.message}`);
-        await interaction.editReply(`❌ Error: ${error.message}`);
-      }
+    if (pending.escalateAt !== undefined) {
+      pending.escalation = setTimeout(() => this.escalateQuestion(messageId), Math.max(pending.escalateAt - Date.now(), 0));
     }
   }
 
+  private clearQuestionTimers(pending: PendingQuestion): void {
+    clearTimeout(pending.timeout);
+    clearInterval(pending.reminder);
+    clearTimeout(pending.escalation);
+  }
+
   /**
-   * Handle button interactions for ask_question responses.
+   * Deadline line shown under a question: a live Discord countdown, plus the answer used if nobody replies.
    */
-  private async handleButtonInteraction(interaction: Interaction): Promise<void> {
-    if (!interaction.isButton()) return;
+  private formatQuestionDeadline(pending: PendingQuestion): string {
+    const defaultOption = pending.options.find(option => option.id === pending.defaultOptionId);
+    const fallback = defaultOption ? ` · If unanswered: **${defaultOption.label}**` : '';
+    return `-# ⏰ Expires <t:${Math.floor(pending.expiresAt / 1000)}:R>${fallback}`;
+  }
 
-    const customId = interaction.customId;
-    
-    // Check if this is for one of our pending questions
-    // Custom IDs are formatted as: ask_q_{messageId}_{optionId} or ask_q_{messageId}_submit
-    if (!customId.startsWith('ask_q_')) return;
+  /**
+   * Re-ping the notified users about a question that's still unanswered.
+   */
+  private async remindQuestion(messageId: string): Promise<void> {
+    const pending = this.pendingQuestions.get(messageId);
+    if (!pending || !this.client) return;
 
-    const parts = customId.split('_');
-    if (parts.length < 4) return;
+    try {
+      const thread = await this.client.channels.fetch(pending.threadId);
+      if (!(thread instanceof ThreadChannel)) return;
 
-    const messageId = parts[2];
-    const action = parts.slice(3).join('_'); // Option ID or 'submit'
+      const config = await vscode.commands.executeCommand<GetConfigResult>(Commands.GET_CONFIG);
+      const mentions = (config?.threadInviteUserIds || []).map(id => `<@${id}>`).join(' ');
+      await thread.send({
+        content: `${mentions ? `${mentions} ` : ''}⏰ Still waiting for an answer to this question - expires <t:${Math.floor(pending.expiresAt / 1000)}:R>`,
+        reply: { messageReference: messageId, failIfNotExists: false },
+      });
+    } catch (error: any) {
+      this.outputChannel.appendLine(`[Questions] Failed to send reminder for ${messageId}: ${error.message}`);
+    }
+  }
 
+  /**
+   * DM the configured escalation users about a question that's still unanswered. Sent once.
+   */
+  private async escalateQuestion(messageId: string): Promise<void> {
     const pending = this.pendingQuestions.get(messageId);
-    if (!pending) {
-      // Question may have timed out or been answered
-      await interaction.reply({ content: 'This question has expired or already been answered.', flags: MessageFlags.Ephemeral });
+    if (!pending || !this.client) return;
+
+    pending.escalateAt = undefined;
+    await this.savePendingQuestions();
+
+    const config = await vscode.commands.executeCommand<GetConfigResult>(Commands.GET_CONFIG);
+    const userIds = config?.questionEscalationUserIds || [];
+    if (userIds.length === 0) {
+      this.outputChannel.appendLine(`[Questions] Question ${messageId} wasn't escalated: no escalation users configured`);
       return;
     }
 
-    if (pending.allowMultiple) {
-      // Multi-select mode
-      if (action === 'submit') {
-        // User submitted their selection
-        const selectedIds = Array.from(pending.selectedOptions);
-        await this.resolveQuestion(pending, {
-          success: true,
-          responseType: 'option',
-          selectedOptionIds: selectedIds,
-        });
-        await interaction.reply({ content: `Selection submitted: ${selectedIds.length} option(s) selected.`, flags: MessageFlags.Ephemeral });
-      } else {
-        // Toggle selection
-        if (pending.selectedOptions.has(action)) {
-          pending.selectedOptions.delete(action);
-        } else {
-          pending.selectedOptions.add(action);
+    try {
+      const thread = await this.client.channels.fetch(pending.threadId);
+      if (!(thread instanceof ThreadChannel)) return;
+
+      const content = `❓ An agent in **${thread.name}** is waiting for an answer: "${pending.question}"\n` +
+        `${thread.url}/${messageId}\n${this.formatQuestionDeadline(pending)}`;
+      for (const userId of userIds) {
+        try {
+          const user = await this.client.users.fetch(userId);
+          await user.send({ content });
+        } catch (error: any) {
+          this.outputChannel.appendLine(`[Questions] Failed to DM ${userId} about ${messageId}: ${error.message}`);
         }
-        // Update the message to show current selection
-        await this.updateQuestionMessage(pending);
-        await interaction.deferUpdate();
       }
-    } else {
-      // Single-select mode - resolve immediately
-      // Track the selected option so disableQuestionButtons can show it
-      pending.selectedOptions.add(action);
-      await this.resolveQuestion(pending, {
-        success: true,
-        responseType: 'option',
-        selectedOptionIds: [action],
-      });
-      await interaction.reply({ content: `You selected: ${pending.options.find(o => o.id === action)?.label || action}`, flags: MessageFlags.Ephemeral });
+      this.outputChannel.appendLine(`[Questions] Escalated question ${messageId} to ${userIds.length} user(s)`);
+    } catch (error: any) {
+      this.outputChannel.appendLine(`[Questions] Failed to escalate question ${messageId}: ${error.message}`);
     }
   }
 
   /**
-   * Resolve a pending question with the given result.
+   * Send the answer to a question restored after a restart to the agent: it's queued
+   * for the chat like a Discord message, and kept in the inbox for check_discord_messages.
    */
-  private async resolveQuestion(pending: PendingQuestion, result: AskQuestionResult): Promise<void> {
-    // Clear timeout
-    clearTimeout(pending.timeout);
-    
-    // Remove from pending
-    this.pendingQuestions.delete(pending.messageId);
-    
-    // Update the message to show it's been answered
-    await this.disableQuestionButtons(pending);
-    
-    // Resolve the promise
-    pending.resolve(result);
+  private async deliverLateAnswer(
+    pending: PendingQuestion,
+    result: AskQuestionResult,
+    answeredBy?: { id: string; username: string }
+  ): Promise<void> {
+    const answer = this.formatLateAnswer(pending, result);
+    const prompt = `Answer to your earlier question "${pending.question}" (Cursor restarted while you were waiting, so ask_question couldn't return it):\n${answer}`;
+
+    await this.inbox.add({
+      messageId: pending.messageId,
+      threadId: pending.threadId,
+      author: answeredBy?.username || 'Discord',
+      authorId: answeredBy?.id || '',
+      content: prompt,
+      attachments: [],
+      timestamp: Date.now(),
+      deliveredToChat: false,
+    });
+
+    const mapping = this.getMappingForThread(pending.threadId);
+    if (!mapping || !this.client) {
+      this.outputChannel.appendLine(`[Questions] Late answer for ${pending.messageId} kept in inbox (no chat mapped)`);
+      return;
+    }
+
+    try {
+      const thread = await this.client.channels.fetch(pending.threadId);
+      if (!(thread instanceof ThreadChannel)) return;
+
+      // The question message stands in for the answer (queue reactions go there)
+      const message = await thread.messages.fetch(pending.messageId);
+      this.deliveryQueue.enqueue(mapping.chatId, pending.threadId, { message, prompt });
+      this.outputChannel.appendLine(`[Questions] Queued late answer for ${pending.messageId} to chat ${mapping.chatId}`);
+    } catch (error: any) {
+      this.outputChannel.appendLine(`[Questions] Late answer for ${pending.messageId} kept in inbox: ${error.message}`);
+    }
   }
 
   /**
@@ -1374,12 +3838,15 @@ export class DiscordClientManager {
       if (!message) return;
 
       // Rebuild components with updated selection state
+      this.currentQuestionMessageId = pending.messageId;
       const components = this.buildQuestionComponents(
         '', // Question text not needed for update
         pending.options,
         pending.allowMultiple,
         pending.selectedOptions,
-        false // not disabled
+        false, // not disabled
+        pending.kind,
+        this.formatQuestionDeadline(pending)
       );
 
       await message.edit({ components });
@@ -1392,7 +3859,7 @@ export class DiscordClientManager {
    * Replace question message with a list showing the answered state.
    * Shows ✅ for selected options and ▫️ for unselected options.
    */
-  private async disableQuestionButtons(pending: PendingQuestion): Promise<void> {
+  private async disableQuestionButtons(pending: PendingQuestion, note?: string): Promise<void> {
     if (!this.client) return;
 
     try {
@@ -1413,16 +3880,24 @@ export class DiscordClientManager {
         new SeparatorBuilder().setSpacing(SeparatorSpacingSize.Small)
       );
 
-      // Add each option as a list item with ✅ or ▫️
-      const optionLines = pending.options.map(option => {
+      // Add each option as a list item with ✅ or ▫️ (forms: each question with its answer)
+      const optionLines = pending.fields ? this.formatFormAnswers(pending.fields) : pending.options.map(option => {
         const isSelected = pending.selectedOptions.has(option.id);
         const marker = isSelected ? '✅' : '▫️';
         return `${marker} ${option.label}`;
       }).join('\n');
       
-      container.addTextDisplayComponents(
-        new TextDisplayBuilder().setContent(optionLines)
-      );
+      if (optionLines) {
+        container.addTextDisplayComponents(
+          new TextDisplayBuilder().setContent(optionLines)
+        );
+      }
+
+      if (note) {
+        container.addTextDisplayComponents(
+          new TextDisplayBuilder().setContent(`-# ${note}`)
+        );
+      }
 
       await message.edit({ components: [container] });
     } catch (error: any) {
@@ -1438,7 +3913,9 @@ export class DiscordClientManager {
     options: AskQuestionOption[],
     allowMultiple: boolean,
     selectedOptions: Set<string>,
-    disabled: boolean
+    disabled: boolean,
+    kind: AskQuestionKind = 'buttons',
+    deadline?: string
   ): any[] {
     // Use a Container with Sections for each option
     const container = new ContainerBuilder();
@@ -1453,8 +3930,43 @@ export class DiscordClientManager {
       );
     }
 
-    // Add a section for each option
-    for (const option of options) {
+    if (kind === 'select') {
+      this.addQuestionSelectMenu(container, options, allowMultiple, selectedOptions, disabled);
+    } else if (kind === 'text') {
+      container.addSectionComponents(
+        new SectionBuilder()
+          .addTextDisplayComponents(
+            new TextDisplayBuilder().setContent('*Click Reply to type your answer*')
+          )
+          .setButtonAccessory(
+            new ButtonBuilder()
+              .setCustomId(`ask_q_${this.currentQuestionMessageId}_reply`)
+              .setLabel('Reply')
+              .setStyle(ButtonStyle.Primary)
+              .setDisabled(disabled)
+          )
+      );
+    } else if (kind === 'confirm') {
+      container.addActionRowComponents(
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+          new ButtonBuilder()
+            .setCustomId(`ask_q_${this.currentQuestionMessageId}_approve`)
+            .setLabel('Approve')
+            .setEmoji('✅')
+            .setStyle(ButtonStyle.Success)
+            .setDisabled(disabled),
+          new ButtonBuilder()
+            .setCustomId(`ask_q_${this.currentQuestionMessageId}_reject`)
+            .setLabel('Reject')
+            .setEmoji('✖️')
+            .setStyle(ButtonStyle.Danger)
+            .setDisabled(disabled)
+        )
+      );
+    }
+
+    // Add a section for each option (button questions)
+    for (const option of kind === 'buttons' ? options : []) {
       const isSelected = selectedOptions.has(option.id);
       const buttonStyle = isSelected ? ButtonStyle.Success : ButtonStyle.Secondary;
       const buttonLabel = allowMultiple 
@@ -1490,7 +4002,7 @@ export class DiscordClientManager {
     }
 
     // Add submit button for multi-select
-    if (allowMultiple && !disabled) {
+    if (kind === 'buttons' && allowMultiple && !disabled) {
       container.addSeparatorComponents(
         new SeparatorBuilder().setSpacing(SeparatorSpacingSize.Small)
       );
@@ -1513,13 +4025,56 @@ export class DiscordClientManager {
     container.addSeparatorComponents(
       new SeparatorBuilder().setSpacing(SeparatorSpacingSize.Small)
     );
-    container.addTextDisplayComponents(
-      new TextDisplayBuilder().setContent('_You can also reply with a message to provide a custom answer._')
-    );
+    const hint = (kind === 'text'
+      ? '_You can also reply to this message with your answer._'
+      : '_Or click Reply (or reply to this message) to answer in your own words._') + (deadline ? `\n${deadline}` : '');
+    if (kind === 'text') {
+      container.addTextDisplayComponents(new TextDisplayBuilder().setContent(hint));
+    } else {
+      container.addSectionComponents(
+        new SectionBuilder()
+          .addTextDisplayComponents(new TextDisplayBuilder().setContent(hint))
+          .setButtonAccessory(
+            new ButtonBuilder()
+              .setCustomId(`ask_q_${this.currentQuestionMessageId}_${QUESTION_TYPED_REPLY_ACTION}`)
+              .setLabel('Reply')
+              .setStyle(ButtonStyle.Secondary)
+              .setDisabled(disabled)
+          )
+      );
+    }
 
     return [container];
   }
 
+  /**
+   * Select menu for a select question (Discord allows up to 25 options).
+   */
+  private addQuestionSelectMenu(
+    container: ContainerBuilder,
+    options: AskQuestionOption[],
+    allowMultiple: boolean,
+    selectedOptions: Set<string>,
+    disabled: boolean,
+    customId: string = `ask_q_${this.currentQuestionMessageId}_select`
+  ): void {
+    const menu = new StringSelectMenuBuilder()
+      .setCustomId(customId)
+      .setPlaceholder(allowMultiple ? 'Select one or more options' : 'Select an option')
+      .setMinValues(1)
+      .setMaxValues(allowMultiple ? options.length : 1)
+      .setDisabled(disabled)
+      .addOptions(options.map(option => ({
+        label: option.label.length > 100 ? option.label.substring(0, 97) + '...' : option.label,
+        value: option.id,
+        default: selectedOptions.has(option.id),
+      })));
+
+    container.addActionRowComponents(
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(menu)
+    );
+  }
+
   // Temporary storage for current question message ID during component building
   private currentQuestionMessageId: string = '';
 
@@ -1538,12 +4093,24 @@ export class DiscordClientManager {
       return { success: false, error: 'No thread ID provided' };
     }
 
-    if (!params.options || params.options.length === 0) {
+    const kind = params.kind || 'buttons';
+    const optionsRequired = kind === 'buttons' || kind === 'select';
+
+    if (optionsRequired && (!params.options || params.options.length === 0)) {
       return { success: false, error: 'No options provided' };
     }
 
+    if (kind === 'select' && params.options.length > 25) {
+      return { success: false, error: 'Select questions support up to 25 options' };
+    }
+
+    if (params.defaultOptionId && !(optionsRequired && params.options.some(option => option.id === params.defaultOptionId))) {
+      return { success: false, error: `Default option "${params.defaultOptionId}" is not one of the options` };
+    }
+
     const threadId = params.threadId;
     const timeoutMs = params.timeoutMs || ASK_QUESTION_TIMEOUT_MS;
+    const askedAt = Date.now();
 
     try {
       const thread = await this.client.channels.fetch(threadId);
@@ -1551,17 +4118,42 @@ export class DiscordClientManager {
         return { success: false, error: `Thread ${threadId} not found` };
       }
 
+      // Option IDs are returned to the agent unchanged; only displayed text is redacted
+      const question = await this.redact(params.question, `question in thread ${threadId}`);
+      const options: AskQuestionOption[] = [];
+      for (const option of (optionsRequired ? params.options : [])) {
+        options.push({ ...option, label: await this.redact(option.label, `question option in thread ${threadId}`) });
+      }
+
       // Generate a unique message ID placeholder for component building
       const tempMessageId = `temp_${Date.now()}`;
       this.currentQuestionMessageId = tempMessageId;
 
+      const pending: PendingQuestion = {
+        threadId,
+        messageId: tempMessageId,
+        question,
+        kind,
+        options,
+        allowMultiple: params.allowMultiple || false,
+        selectedOptions: new Set(),
+        allowedResponderIds: await this.getAllowedResponders(threadId, params.allowedResponderIds),
+        expiresAt: askedAt + timeoutMs,
+        defaultOptionId: params.defaultOptionId,
+        reminderIntervalMs: params.reminderIntervalMs,
+        escalateAt: params.escalate ? askedAt + timeoutMs / 2 : undefined,
+      };
+      const deadline = this.formatQuestionDeadline(pending);
+
       // Build the initial components
       const components = this.buildQuestionComponents(
-        params.question,
-        params.options,
+        question,
+        options,
         params.allowMultiple || false,
         new Set(),
-        false
+        false,
+        kind,
+        deadline
       );
 
       // Send the question message with Components V2
@@ -1573,41 +4165,24 @@ export class DiscordClientManager {
       // Now update the components with the real message ID
       this.currentQuestionMessageId = message.id;
       const updatedComponents = this.buildQuestionComponents(
-        params.question,
-        params.options,
+        question,
+        options,
         params.allowMultiple || false,
         new Set(),
-        false
+        false,
+        kind,
+        deadline
       );
       await message.edit({ components: updatedComponents });
 
       // Create promise that will be resolved when user responds
       return new Promise<AskQuestionResult>((resolve) => {
-        // Set up timeout
-        const timeout = setTimeout(async () => {
-          const pending = this.pendingQuestions.get(message.id);
-          if (pending) {
-            this.pendingQuestions.delete(message.id);
-            await this.disableQuestionButtons(pending);
-            resolve({
-              success: false,
-              error: 'Question timed out waiting for response',
-            });
-          }
-        }, timeoutMs);
-
-        // Store pending question
-        const pending: PendingQuestion = {
-          threadId,
-          messageId: message.id,
-          question: params.question,
-          options: params.options,
-          allowMultiple: params.allowMultiple || false,
-          selectedOptions: new Set(),
-          resolve,
-          timeout,
-        };
+        // Store pending question (persisted, so it survives a restart)
+        pending.messageId = message.id;
+        pending.resolve = resolve;
         this.pendingQuestions.set(message.id, pending);
+        this.scheduleQuestionTimers(pending);
+        this.savePendingQuestions();
 
         this.outputChannel.appendLine(`Posted question in thread ${threadId}, waiting for response (message: ${message.id})`);
       });
@@ -1618,25 +4193,72 @@ export class DiscordClientManager {
   }
 
   /**
-   * Check if a text message in a thread should resolve a pending question.
-   * Called from handleMessage.
+   * The pending question a thread message answers, if any: a Discord reply to the question,
+   * or the next message from someone who clicked its Reply button. Forms are only answered
+   * through their components.
    */
-  private checkForQuestionResponse(threadId: string, messageContent: string, authorId: string): boolean {
-    // Find any pending question for this thread
-    for (const [messageId, pending] of this.pendingQuestions) {
-      if (pending.threadId === threadId) {
-        // This text message is a response to the pending question
-        this.resolveQuestion(pending, {
-          success: true,
-          responseType: 'text',
-          textResponse: messageContent,
-        });
-        return true;
+  private findQuestionAnsweredBy(threadId: string, message: Message): PendingQuestion | undefined {
+    for (const pending of this.pendingQuestions.values()) {
+      if (pending.threadId !== threadId || pending.fields) continue;
+      if (message.reference?.messageId === pending.messageId || pending.replyingUserIds?.has(message.author.id)) {
+        return pending;
       }
     }
+    return undefined;
+  }
+
+  private canAnswerQuestion(pending: PendingQuestion, userId: string): boolean {
+    return pending.allowedResponderIds.length === 0 || pending.allowedResponderIds.includes(userId);
+  }
+
+  /**
+   * Check that the user clicking a question's component may answer it, and tell them if not.
+   */
+  private async checkQuestionResponder(
+    interaction: ButtonInteraction | StringSelectMenuInteraction | ModalSubmitInteraction,
+    pending: PendingQuestion
+  ): Promise<boolean> {
+    if (this.canAnswerQuestion(pending, interaction.user.id)) {
+      return true;
+    }
+    const responders = pending.allowedResponderIds.map(id => `<@${id}>`).join(', ');
+    await interaction.reply({ content: `🚫 This question is for ${responders}.`, flags: MessageFlags.Ephemeral });
     return false;
   }
 
+  /**
+   * Who may answer a new question in a thread: the given IDs, or by default the thread invite
+   * users plus whoever last prompted the thread from Discord (empty = anyone).
+   */
+  private async getAllowedResponders(threadId: string, requested?: string[]): Promise<string[]> {
+    if (requested && requested.length > 0) {
+      return requested;
+    }
+    const config = await vscode.commands.executeCommand<GetConfigResult>(Commands.GET_CONFIG);
+    const responders = new Set(config?.threadInviteUserIds || []);
+    const promptAuthor = this.promptAuthors.get(threadId);
+    if (promptAuthor) {
+      responders.add(promptAuthor);
+    }
+    return [...responders];
+  }
+
+  /**
+   * Check a Discord user's access right against the configured access policy.
+   */
+  private async checkAccess(
+    right: AccessRight,
+    userId: string,
+    member: GuildMember | APIInteractionGuildMember | null | undefined
+  ): Promise<boolean> {
+    const config = await vscode.commands.executeCommand<GetConfigResult>(Commands.GET_CONFIG);
+    const allowed = isAllowed(config?.accessPolicy, right, userId, getMemberRoleIds(member));
+    if (!allowed) {
+      this.outputChannel.appendLine(`[Access] Denied ${right} for user ${userId}`);
+    }
+    return allowed;
+  }
+
   // ============ Chat Mapping (stored in workspace state) ============
 
   getChatMappings(): Map<string, ChatMapping> {
@@ -1695,6 +4317,97 @@ export class DiscordClientManager {
     await this.saveThreadLastActivity();
   }
 
+  // ============ Pending Question Persistence ============
+
+  private async savePendingQuestions(): Promise<void> {
+    const stored: StoredQuestion[] = [...this.pendingQuestions.values()].map(pending => ({
+      threadId: pending.threadId,
+      messageId: pending.messageId,
+      question: pending.question,
+      kind: pending.kind,
+      options: pending.options,
+      allowMultiple: pending.allowMultiple,
+      selectedOptionIds: [...pending.selectedOptions],
+      fields: pending.fields?.map(({ selectedOptions, ...field }) => ({ ...field, selectedOptionIds: [...selectedOptions] })),
+      allowedResponderIds: pending.allowedResponderIds,
+      expiresAt: pending.expiresAt,
+      defaultOptionId: pending.defaultOptionId,
+      reminderIntervalMs: pending.reminderIntervalMs,
+      escalateAt: pending.escalateAt,
+    }));
+    await this.context.workspaceState.update('discordBridge.pendingQuestions', stored);
+  }
+
+  /**
+   * Re-register questions asked before a restart, so their buttons work again (the
+   * answer is sent as a new prompt). Questions that expired meanwhile are disabled.
+   */
+  private async restorePendingQuestions(): Promise<void> {
+    const stored = this.context.workspaceState.get<StoredQuestion[]>('discordBridge.pendingQuestions', []);
+    let restored = 0;
+    let expired = 0;
+
+    for (const entry of stored) {
+      // Still waiting in this session (reconnect without restart)
+      if (this.pendingQuestions.has(entry.messageId)) continue;
+
+      const pending: PendingQuestion = {
+        threadId: entry.threadId,
+        messageId: entry.messageId,
+        question: entry.question,
+        kind: entry.kind ?? 'buttons',
+        options: entry.options,
+        allowMultiple: entry.allowMultiple,
+        selectedOptions: new Set(entry.selectedOptionIds),
+        fields: entry.fields?.map(({ selectedOptionIds, ...field }) => ({ ...field, selectedOptions: new Set(selectedOptionIds) })),
+        allowedResponderIds: entry.allowedResponderIds ?? [],
+        expiresAt: entry.expiresAt,
+        defaultOptionId: entry.defaultOptionId,
+        reminderIntervalMs: entry.reminderIntervalMs,
+        escalateAt: entry.escalateAt,
+      };
+
+      // With a default, an expired question is still answered (right away, by the timer below)
+      if (entry.expiresAt <= Date.now() && !entry.defaultOptionId) {
+        await this.disableQuestionButtons(pending, '⌛ Expired - Cursor restarted before it was answered');
+        expired++;
+        continue;
+      }
+
+      this.pendingQuestions.set(entry.messageId, pending);
+      this.scheduleQuestionTimers(pending);
+      restored++;
+    }
+
+    await this.savePendingQuestions();
+    if (restored > 0 || expired > 0) {
+      this.outputChannel.appendLine(`[Questions] Restored ${restored} pending question(s), expired ${expired}`);
+    }
+  }
+
+  // ============ Pending Approval Persistence ============
+
+  private async savePendingApprovals(): Promise<void> {
+    const stored = [...this.pendingApprovals.values()].map(({ resolve, timeout, ...approval }) => approval);
+    await this.context.workspaceState.update('discordBridge.pendingApprovals', stored);
+  }
+
+  /**
+   * Expire approval requests left over from before a restart. The agent that asked has
+   * stopped waiting, so a late approval would sign off on nothing - but the request
+   * still gets a decision in the approval log.
+   */
+  private async expireRestoredApprovals(): Promise<void> {
+    const stored = this.context.workspaceState.get<PendingApproval[]>('discordBridge.pendingApprovals', []);
+    const leftover = stored.filter(approval => !this.pendingApprovals.has(approval.messageId));
+    if (leftover.length === 0) return;
+
+    for (const approval of leftover) {
+      await this.decideApproval(approval, 'expired');
+    }
+    this.outputChannel.appendLine(`[Approvals] Expired ${leftover.length} approval request(s) from before the restart`);
+  }
+
   // ============ Explicit Archive Persistence ============
 
   private loadExplicitlyArchivedThreadIds(): void {
@@ -1746,6 +4459,46 @@ export class DiscordClientManager {
     return undefined;
   }
 
+  /**
+   * Point a thread at a different Cursor chat (/open inside a thread). Any other
+   * chat mapped to the thread loses its mapping; the chat's old thread is told
+   * where the conversation moved.
+   */
+  async bindThreadToChat(chatId: string, threadId: string): Promise<void> {
+    const mappings = this.getChatMappings();
+    const previousThreadId = mappings.get(chatId)?.threadId;
+
+    for (const [otherChatId, mapping] of mappings) {
+      if (mapping.threadId === threadId && otherChatId !== chatId) {
+        mappings.delete(otherChatId);
+        this.outputChannel.appendLine(`[DiscordClient] Unmapped chat ${otherChatId} from thread ${threadId}`);
+      }
+    }
+
+    mappings.set(chatId, {
+      chatId,
+      threadId,
+      workspaceName: vscode.workspace.name || 'unnamed',
+      createdAt: new Date().toISOString(),
+      // Not a new chat waiting for get_my_thread_id
+      claimedAt: new Date().toISOString(),
+    });
+    await this.saveChatMappings(mappings);
+    await this.updateThreadActivity(threadId);
+    this.outputChannel.appendLine(`[DiscordClient] Bound chat ${chatId} to thread ${threadId}`);
+
+    if (previousThreadId && previousThreadId !== threadId) {
+      try {
+        const oldThread = await this.client?.channels.fetch(previousThreadId);
+        if (oldThread instanceof ThreadChannel && !oldThread.archived) {
+          await oldThread.send(`🔗 This chat continues in <#${threadId}>.`);
+        }
+      } catch {
+        // Old thread deleted
+      }
+    }
+  }
+
   private async setChatMapping(mapping: ChatMapping): Promise<void> {
     const mappings = this.getChatMappings();
     mappings.set(mapping.chatId, mapping);
@@ -1861,37 +4614,31 @@ export class DiscordClientManager {
     return undefined;
   }
 
-  // ============ Utility ============
+  // ============ Secret Redaction ============
 
-  private splitMessage(content: string): string[] {
-    if (content.length <= DISCORD_MAX_MESSAGE_LENGTH) {
-      return [content];
+  /**
+   * Mask secrets in text before it is sent to Discord and log what was masked.
+   * `context` describes where the text is going, for the log.
+   */
+  private async redact(text: string, context: string): Promise<string> {
+    const config = await vscode.commands.executeCommand<GetConfigResult>(Commands.GET_CONFIG);
+    const result = redactSecrets(text, config?.redaction ?? DEFAULT_REDACTION_SETTINGS, config?.token);
+    if (result.total === 0) {
+      return text;
     }
 
-    const chunks: string[] = [];
-    let remaining = content;
-
-    while (remaining.length > 0) {
-      if (remaining.length <= DISCORD_MAX_MESSAGE_LENGTH) {
-        chunks.push(remaining);
-        break;
-      }
-
-      let splitIndex = remaining.lastIndexOf('\n', DISCORD_MAX_MESSAGE_LENGTH);
-      if (splitIndex === -1 || splitIndex < DISCORD_MAX_MESSAGE_LENGTH / 2) {
-        splitIndex = remaining.lastIndexOf(' ', DISCORD_MAX_MESSAGE_LENGTH);
-      }
-      if (splitIndex === -1 || splitIndex < DISCORD_MAX_MESSAGE_LENGTH / 2) {
-        splitIndex = DISCORD_MAX_MESSAGE_LENGTH;
-      }
-
-      chunks.push(remaining.substring(0, splitIndex));
-      remaining = remaining.substring(splitIndex).trimStart();
-    }
+    const summary = Object.entries(result.counts)
+      .map(([detector, count]) => `${detector} ×${count}`)
+      .join(', ');
+    const logMessage = `[Redaction] Masked ${result.total} secret(s) in ${context}: ${summary}`;
+    this.outputChannel.appendLine(logMessage);
+    vscode.commands.executeCommand(Commands.ADD_LOG, logMessage);
 
-    return chunks;
+    return result.text;
   }
 
+  // ============ Utility ============
+
   getBotInviteUrl(): string | null {
     if (!this.client?.user) return null;
     const clientId = this.client.user.id;
@@ -1918,6 +4665,51 @@ export class DiscordClientManager {
       {
         name: 'new-agent',
         description: 'Create a new Cursor agent chat',
+        // No mode (agent/ask) or model options yet: Cursor has no confirmed command to
+        // set either on a new chat - see docs/cursor-internals.md#mode-and-model
+        options: [
+          {
+            name: 'thread_name',
+            description: 'Name for the Discord thread (default: the chat name from Cursor)',
+            type: ApplicationCommandOptionType.String,
+            max_length: 100,
+          },
+          ...NEW_AGENT_FILE_OPTIONS.map((name, index) => ({
+            name,
+            description: index === 0 ? 'Workspace file to attach as context' : 'Another file to attach',
+            type: ApplicationCommandOptionType.String,
+            autocomplete: true,
+          })),
+        ],
+      },
+      {
+        name: 'status',
+        description: 'Show which agent chats are working, waiting or idle',
+      },
+      {
+        name: 'open',
+        description: 'Connect an existing Cursor chat to Discord (or to this thread)',
+        options: [
+          {
+            name: 'chat',
+            description: 'Cursor chat name',
+            type: ApplicationCommandOptionType.String,
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        name: 'stop',
+        description: 'Stop the agent working in this thread',
+      },
+      {
+        name: 'cancel',
+        description: 'Stop the agent working in this thread (same as /stop)',
+      },
+      {
+        name: 'Send to agent',
+        type: ApplicationCommandType.Message,
       },
     ];
 
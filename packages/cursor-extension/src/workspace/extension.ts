@@ -10,12 +10,18 @@ import * as vscode from 'vscode';
 import { DiscordClientManager } from './discordClient';
 import { ChatWatcher } from './chatWatcher';
 import { NameSyncWatcher } from './nameSyncWatcher';
+import { StorageWatcher } from './storageWatcher';
+import { TranscriptMirror } from './transcriptMirror';
 import { ensureCursorRulesExist } from './cursorRules';
-import { Commands, PostToThreadParams, CreateThreadParams, CreateChannelParams, DiscordStatusResult, GuildInfo, ChannelInfo, CategoryInfo, PermissionCheckResult, CheckGuildPermissionsParams, GetChannelsParams, GetCategoriesParams, SelectChannelParams, SendFileToThreadParams, StartTypingParams, StopTypingParams, RenameThreadParams, ArchiveThreadParams, GetThreadForActiveChatResult, ResolveThreadIdResult, ForwardUserPromptParams, AskQuestionParams, AskQuestionResult } from '../shared/commands';
+import { closeCursorStorage } from './cursorStorage';
+import { getApprovalLogPath } from './approvalLog';
+import { Commands, PostToThreadParams, CreateThreadParams, CreateChannelParams, DiscordStatusResult, GuildInfo, ChannelInfo, CategoryInfo, PermissionCheckResult, CheckGuildPermissionsParams, GetChannelsParams, GetCategoriesParams, SelectChannelParams, SendFileToThreadParams, SendDiffParams, SendDiffResult, StartTypingParams, StopTypingParams, RenameThreadParams, ArchiveThreadParams, GetThreadForActiveChatResult, ResolveThreadIdResult, ForwardUserPromptParams, AskQuestionParams, AskQuestionsParams, AskQuestionResult, RequestApprovalParams, RequestApprovalResult, CheckMessagesParams, EditMessageParams, AppendToMessageParams } from '../shared/commands';
 
 let discordClient: DiscordClientManager;
+let storageWatcher: StorageWatcher;
 let chatWatcher: ChatWatcher;
 let nameSyncWatcher: NameSyncWatcher;
+let transcriptMirror: TranscriptMirror;
 let outputChannel: vscode.OutputChannel;
 
 export async function activateWorkspace(context: vscode.ExtensionContext): Promise<void> {
@@ -27,6 +33,8 @@ export async function activateWorkspace(context: vscode.ExtensionContext): Promi
   discordClient = new DiscordClientManager(context, outputChannel, {
     onReady: async () => {
       outputChannel.appendLine('Discord ready, starting chat watcher...');
+      // Watch Cursor's storage - the watchers below run on its change events
+      storageWatcher?.start();
       // Auto-start chat watcher when Discord connects
       if (chatWatcher && !chatWatcher.isRunning()) {
         chatWatcher.start();
@@ -35,6 +43,10 @@ export async function activateWorkspace(context: vscode.ExtensionContext): Promi
       if (nameSyncWatcher && !nameSyncWatcher.isWatching()) {
         await nameSyncWatcher.start();
       }
+      // Start transcript mirror (posts responses the agent didn't post itself)
+      if (transcriptMirror && !transcriptMirror.isRunning()) {
+        transcriptMirror.start();
+      }
       // Reconcile any chats that were seen before Discord was ready
       if (chatWatcher) {
         await chatWatcher.reconcilePendingChats();
@@ -52,10 +64,14 @@ export async function activateWorkspace(context: vscode.ExtensionContext): Promi
       outputChannel.appendLine(`Thread message from ${author}: ${message.substring(0, 50)}...`);
       vscode.commands.executeCommand(Commands.ADD_LOG, `${author}: ${message.substring(0, 50)}...`);
     },
+    onOpenChat: (chatId, threadId) => chatWatcher.openChat(chatId, threadId),
   });
 
+  // Initialize storage watcher (file watch + adaptive fallback poll, shared by the watchers below)
+  storageWatcher = new StorageWatcher(outputChannel);
+
   // Initialize chat watcher
-  chatWatcher = new ChatWatcher(context, discordClient, {
+  chatWatcher = new ChatWatcher(context, discordClient, storageWatcher, {
     onNewChat: (chatId, threadId) => {
       outputChannel.appendLine(`New chat ${chatId} → thread ${threadId}`);
     },
@@ -64,8 +80,11 @@ export async function activateWorkspace(context: vscode.ExtensionContext): Promi
     },
   }, outputChannel);
 
-  // Initialize name sync watcher (hybrid file watch + polling)
-  nameSyncWatcher = new NameSyncWatcher(discordClient, outputChannel);
+  // Initialize name sync watcher
+  nameSyncWatcher = new NameSyncWatcher(discordClient, storageWatcher, outputChannel);
+
+  // Initialize transcript mirror (reads agent responses from Cursor's storage)
+  transcriptMirror = new TranscriptMirror(context, discordClient, storageWatcher, outputChannel);
 
   // Register workspace commands
   registerWorkspaceCommands(context);
@@ -98,12 +117,15 @@ function registerWorkspaceCommands(context: vscode.ExtensionContext): void {
 
   context.subscriptions.push(
     vscode.commands.registerCommand(Commands.START_WATCHER, () => {
+      storageWatcher.start();
       chatWatcher.start();
     })
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand(Commands.STOP_WATCHER, () => {
+      // Only chat detection stops: the storage watcher keeps running on purpose,
+      // since NameSyncWatcher and TranscriptMirror still run on its ticks
       chatWatcher.stop();
     })
   );
@@ -143,6 +165,17 @@ function registerWorkspaceCommands(context: vscode.ExtensionContext): void {
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand(Commands.OPEN_APPROVAL_LOG, async () => {
+      try {
+        const document = await vscode.workspace.openTextDocument(getApprovalLogPath(context));
+        await vscode.window.showTextDocument(document, { preview: true });
+      } catch {
+        vscode.window.showInformationMessage('No approval decisions have been logged yet');
+      }
+    })
+  );
+
 
   // Internal: UI → Workspace commands
   context.subscriptions.push(
@@ -151,12 +184,30 @@ function registerWorkspaceCommands(context: vscode.ExtensionContext): void {
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand(Commands.EDIT_MESSAGE, async (params: EditMessageParams) => {
+      return discordClient.editMessage(params);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(Commands.APPEND_TO_MESSAGE, async (params: AppendToMessageParams) => {
+      return discordClient.appendToMessage(params);
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand(Commands.SEND_FILE_TO_THREAD, async (params: SendFileToThreadParams) => {
       return discordClient.sendFileToThread(params);
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand(Commands.SEND_DIFF, async (params: SendDiffParams): Promise<SendDiffResult> => {
+      return discordClient.sendDiff(params);
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand(Commands.START_TYPING, async (params: StartTypingParams) => {
       return discordClient.startTyping(params);
@@ -181,6 +232,12 @@ function registerWorkspaceCommands(context: vscode.ExtensionContext): void {
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand(Commands.CHECK_MESSAGES, async (params: CheckMessagesParams) => {
+      return discordClient.checkMessages(params);
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand(Commands.ARCHIVE_THREAD, async (params: ArchiveThreadParams) => {
       return discordClient.archiveThread(params);
@@ -199,6 +256,18 @@ function registerWorkspaceCommands(context: vscode.ExtensionContext): void {
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand(Commands.ASK_QUESTIONS, async (params: AskQuestionsParams): Promise<AskQuestionResult> => {
+      return discordClient.askQuestions(params);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(Commands.REQUEST_APPROVAL, async (params: RequestApprovalParams): Promise<RequestApprovalResult> => {
+      return discordClient.requestApproval(params);
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand(Commands.GET_DISCORD_STATUS, (): DiscordStatusResult => {
       return discordClient.getStatus();
@@ -343,6 +412,9 @@ function registerWorkspaceCommands(context: vscode.ExtensionContext): void {
 export function deactivateWorkspace(): void {
   outputChannel?.appendLine('Discord Bridge Workspace extension deactivating...');
   nameSyncWatcher?.stop();
+  transcriptMirror?.stop();
   chatWatcher?.stop();
+  storageWatcher?.stop();
   discordClient?.disconnect();
+  closeCursorStorage();
 }
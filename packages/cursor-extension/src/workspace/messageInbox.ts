@@ -0,0 +1,110 @@
+/**
+ * Message Inbox
+ * Buffers incoming Discord messages per thread so an agent can poll for them
+ * (check_discord_messages) instead of relying only on keystroke-injected prompts.
+ *
+ * Each thread has a read cursor (the ID of the last message returned to the agent).
+ * Messages that failed to reach the Cursor chat stay in the inbox like any other,
+ * so nothing the developer sends is dropped. Messages already typed into the chat
+ * are skipped when reading, so the agent doesn't see them twice - and messages the
+ * agent reads while they wait in the DeliveryQueue are taken out of the queue.
+ */
+
+import * as vscode from 'vscode';
+import { InboxMessage } from '../shared/commands';
+
+const STORAGE_KEY = 'discordBridge.messageInbox';
+const CURSOR_STORAGE_KEY = 'discordBridge.messageInboxCursors';
+
+// Keep the most recent N messages per thread (older ones are dropped)
+const MAX_MESSAGES_PER_THREAD = 100;
+
+/**
+ * Compare two Discord snowflakes. Snowflakes are monotonically increasing,
+ * but too large for a JS number, so compare them as BigInts.
+ */
+function isAfter(messageId: string, cursor: string | undefined): boolean {
+  if (!cursor) return true;
+  return BigInt(messageId) > BigInt(cursor);
+}
+
+export class MessageInbox {
+  private context: vscode.ExtensionContext;
+  private outputChannel: vscode.OutputChannel;
+  /** Buffered messages per thread, oldest first */
+  private messages: Map<string, InboxMessage[]> = new Map();
+  /** Read cursor per thread: ID of the last message returned to the agent */
+  private readCursors: Map<string, string> = new Map();
+
+  constructor(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel) {
+    this.context = context;
+    this.outputChannel = outputChannel;
+    this.load();
+  }
+
+  private load(): void {
+    const messages = this.context.workspaceState.get<[string, InboxMessage[]][]>(STORAGE_KEY, []);
+    this.messages = new Map(messages);
+    const cursors = this.context.workspaceState.get<[string, string][]>(CURSOR_STORAGE_KEY, []);
+    this.readCursors = new Map(cursors);
+    this.outputChannel.appendLine(`[Inbox] Loaded ${this.messages.size} thread inbox(es)`);
+  }
+
+  private async save(): Promise<void> {
+    await this.context.workspaceState.update(STORAGE_KEY, [...this.messages.entries()]);
+    await this.context.workspaceState.update(CURSOR_STORAGE_KEY, [...this.readCursors.entries()]);
+  }
+
+  /**
+   * Add a message to its thread's inbox.
+   */
+  async add(message: InboxMessage): Promise<void> {
+    const threadMessages = this.messages.get(message.threadId) || [];
+    threadMessages.push(message);
+
+    if (threadMessages.length > MAX_MESSAGES_PER_THREAD) {
+      threadMessages.splice(0, threadMessages.length - MAX_MESSAGES_PER_THREAD);
+    }
+
+    this.messages.set(message.threadId, threadMessages);
+    await this.save();
+  }
+
+  /**
+   * Record whether a message made it into the Cursor chat.
+   */
+  async setDelivered(threadId: string, messageId: string, delivered: boolean): Promise<void> {
+    const message = this.messages.get(threadId)?.find(m => m.messageId === messageId);
+    if (message && message.deliveredToChat !== delivered) {
+      message.deliveredToChat = delivered;
+      await this.save();
+    }
+  }
+
+  /**
+   * Return unread messages for a thread and advance the read cursor.
+   * Messages already delivered to the chat are passed over (the cursor still
+   * moves past them). With `peek`, the cursor is left untouched.
+   */
+  async read(threadId: string, peek: boolean = false): Promise<InboxMessage[]> {
+    const cursor = this.readCursors.get(threadId);
+    const unread = (this.messages.get(threadId) || []).filter(m => isAfter(m.messageId, cursor));
+    const undelivered = unread.filter(m => !m.deliveredToChat);
+
+    if (!peek && unread.length > 0) {
+      this.readCursors.set(threadId, unread[unread.length - 1].messageId);
+      await this.save();
+      this.outputChannel.appendLine(`[Inbox] Returned ${undelivered.length} unread message(s) for thread ${threadId} (${unread.length - undelivered.length} already in the chat)`);
+    }
+
+    return undelivered;
+  }
+
+  /**
+   * Number of messages the agent hasn't seen yet in a thread (neither read nor delivered to the chat).
+   */
+  getUnreadCount(threadId: string): number {
+    const cursor = this.readCursors.get(threadId);
+    return (this.messages.get(threadId) || []).filter(m => isAfter(m.messageId, cursor) && !m.deliveredToChat).length;
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Markdown-aware message splitting for Discord's message length limit.
+ *
+ * - Code fences are closed at the end of a chunk and reopened (with the same
+ *   language tag) at the start of the next one
+ * - Prefers paragraph breaks, then line breaks; list items and headings are never cut
+ * - Long lines are only broken at spaces outside inline code, links and URLs
+ */
+
+// Matches an opening/closing code fence: indentation, fence marker, info string (language)
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})(.*)$/;
+
+// Spans that must not be split: inline code, markdown links, bare URLs, mentions/emoji
+const PROTECTED_SPAN_REGEX = /`[^`\n]+`|\[[^\]\n]*\]\([^)\n]*\)|https?:\/\/\S+|<[@#:a-zA-Z0-9_!&]+>/g;
+
+const LIST_ITEM_REGEX = /^\s*([-*+]|\d+[.)])\s/;
+const HEADING_REGEX = /^#{1,3}\s/;
+
+/** A piece of the message that should stay in one chunk */
+interface Unit {
+  text: string;
+  /** Opening fence line if this unit is inside a code block */
+  fence: string | null;
+  /** Blank line outside a code block - the preferred place to split */
+  isParagraphBreak: boolean;
+  /** Headings and fence openers shouldn't end a chunk */
+  keepWithNext: boolean;
+  /** Closing line of a code block */
+  closesFence?: boolean;
+}
+
+function closingFenceFor(opener: string): string {
+  const match = opener.match(FENCE_REGEX);
+  return match ? match[1] : '```';
+}
+
+/**
+ * Break the message into units: single lines, list items (with their indented
+ * continuation lines), and code lines tagged with their enclosing fence.
+ */
+function toUnits(content: string): Unit[] {
+  const units: Unit[] = [];
+  let openFence: string | null = null;
+
+  for (const line of content.split('\n')) {
+    const fenceMatch = line.match(FENCE_REGEX);
+
+    if (openFence) {
+      const isClosing = fenceMatch !== null
+        && fenceMatch[2].trim() === ''
+        && fenceMatch[1].startsWith(closingFenceFor(openFence));
+      if (isClosing) {
+        units.push({ text: line, fence: null, isParagraphBreak: false, keepWithNext: false, closesFence: true });
+        openFence = null;
+      } else {
+        units.push({ text: line, fence: openFence, isParagraphBreak: false, keepWithNext: false });
+      }
+      continue;
+    }
+
+    if (fenceMatch) {
+      openFence = line.trim();
+      units.push({ text: line, fence: null, isParagraphBreak: false, keepWithNext: true });
+      continue;
+    }
+
+    // Indented continuation of a list item stays with the item
+    const previous = units[units.length - 1];
+    if (previous && !previous.fence && LIST_ITEM_REGEX.test(previous.text.split('\n')[0])
+        && line.trim() !== '' && /^\s+/.test(line) && !LIST_ITEM_REGEX.test(line)) {
+      previous.text += '\n' + line;
+      continue;
+    }
+
+    units.push({
+      text: line,
+      fence: null,
+      isParagraphBreak: line.trim() === '',
+      keepWithNext: HEADING_REGEX.test(line),
+    });
+  }
+
+  return units;
+}
+
+/**
+ * Find the best index (<= maxLength) to break a single long line:
+ * a space outside protected spans, then any space, then a hard cut.
+ */
+function findLineBreak(text: string, maxLength: number): number {
+  const protectedRanges: [number, number][] = [];
+  for (const match of text.matchAll(PROTECTED_SPAN_REGEX)) {
+    protectedRanges.push([match.index!, match.index! + match[0].length]);
+  }
+  const isProtected = (index: number) => protectedRanges.some(([start, end]) => index > start && index < end);
+
+  for (let i = maxLength; i > maxLength / 2; i--) {
+    if (text[i] === ' ' && !isProtected(i)) {
+      return i;
+    }
+  }
+
+  // Break right before a protected span that straddles the limit
+  const straddling = protectedRanges.find(([start, end]) => start < maxLength && end > maxLength);
+  if (straddling && straddling[0] > 0) {
+    return straddling[0];
+  }
+
+  const space = text.lastIndexOf(' ', maxLength);
+  return space > 0 ? space : maxLength;
+}
+
+/**
+ * Split units whose text alone can't fit in a chunk.
+ */
+function splitOversizedUnits(units: Unit[], maxLength: number): Unit[] {
+  const result: Unit[] = [];
+
+  for (const unit of units) {
+    // Leave room for reopening + closing the fence around code lines
+    const overhead = unit.fence ? unit.fence.length + closingFenceFor(unit.fence).length + 2 : 0;
+    const limit = maxLength - overhead;
+
+    if (unit.text.length <= limit) {
+      result.push(unit);
+      continue;
+    }
+
+    // Multi-line list items fall back to one unit per line first
+    if (unit.text.includes('\n')) {
+      const lines = unit.text.split('\n').map(text => ({ ...unit, text, keepWithNext: false }));
+      result.push(...splitOversizedUnits(lines, maxLength));
+      continue;
+    }
+
+    let remaining = unit.text;
+    while (remaining.length > limit) {
+      const breakIndex = unit.fence ? limit : findLineBreak(remaining, limit);
+      result.push({ ...unit, text: remaining.substring(0, breakIndex), keepWithNext: false });
+      remaining = unit.fence ? remaining.substring(breakIndex) : remaining.substring(breakIndex).trimStart();
+    }
+    if (remaining.length > 0) {
+      result.push({ ...unit, text: remaining });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Render units[start, end) as a chunk, reopening/closing fences as needed.
+ */
+function renderChunk(units: Unit[], start: number, end: number): string {
+  const first = units[start];
+  const last = units[end - 1];
+  const body = units.slice(start, end).map(u => u.text).join('\n');
+  const reopen = first.fence ? `${first.fence}\n` : '';
+  const close = last.fence ? `\n${closingFenceFor(last.fence)}` : '';
+  return reopen + body + close;
+}
+
+/**
+ * Split a message into chunks of at most `maxLength` characters without
+ * breaking Discord markdown.
+ */
+export function splitMessage(content: string, maxLength: number): string[] {
+  if (content.length <= maxLength) {
+    return [content];
+  }
+
+  const units = splitOversizedUnits(toUnits(content), maxLength);
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < units.length) {
+    // Grow the chunk one unit at a time until the next one doesn't fit
+    let end = start + 1;
+    while (end < units.length && renderChunk(units, start, end + 1).length <= maxLength) {
+      end++;
+    }
+
+    if (end < units.length) {
+      // Prefer splitting at a paragraph break in the second half of the chunk
+      for (let i = end - 1; i > start; i--) {
+        if (units[i].isParagraphBreak && renderChunk(units, start, i).length >= maxLength / 2) {
+          end = i;
+          break;
+        }
+      }
+
+      // Don't leave a heading or fence opener dangling at the end of a chunk
+      while (end - 1 > start && units[end - 1].keepWithNext) {
+        end--;
+      }
+    }
+
+    const chunk = renderChunk(units, start, end).replace(/\n+$/, '');
+    if (chunk.trim().length > 0) {
+      chunks.push(chunk);
+    }
+
+    start = end;
+    // The chunk already closed the code block, so drop the original closing line
+    if (start < units.length && units[start].closesFence && units[start - 1].fence) {
+      start++;
+    }
+    // Skip blank lines at the start of the next chunk
+    while (start < units.length && units[start].isParagraphBreak) {
+      start++;
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Take the first `maxLines` lines of a message as a preview, closing any code
+ * block left open and keeping it under `maxLength` characters.
+ */
+export function summarizeMessage(content: string, maxLines: number, maxLength: number): string {
+  const lines = content.split('\n').slice(0, maxLines);
+
+  let openFence: string | null = null;
+  for (const line of lines) {
+    const fenceMatch = line.match(FENCE_REGEX);
+    if (!fenceMatch) continue;
+    if (!openFence) {
+      openFence = line.trim();
+    } else if (fenceMatch[2].trim() === '' && fenceMatch[1].startsWith(closingFenceFor(openFence))) {
+      openFence = null;
+    }
+  }
+  if (openFence) {
+    lines.push(closingFenceFor(openFence));
+  }
+
+  return splitMessage(lines.join('\n').trimEnd(), maxLength)[0];
+}
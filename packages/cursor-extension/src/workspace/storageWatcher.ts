@@ -0,0 +1,335 @@
+/**
+ * Storage Watcher
+ *
+ * One change-driven pipeline for everything that follows Cursor's workspace
+ * database: chat detection, archive detection, name sync and the transcript
+ * mirror subscribe to it, and run one after another on each tick.
+ *
+ * 1. PRIMARY: File watcher on state.vscdb + state.vscdb-wal (debounced)
+ * 2. FALLBACK: Adaptive poll - every second right after activity (file changes,
+ *    window focus, editor and tab switches), backing off to every 5 seconds while
+ *    nothing happens. Catches missed file events, and changes Cursor keeps in
+ *    memory, like the selected composer list - so the idle interval stays short
+ *    enough for new chats to be picked up quickly.
+ * 3. WATCHDOG: Verifies file watchers are alive, restarts them if needed
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { getWorkspaceDbPath } from './cursorStorage';
+import { Commands } from '../shared/commands';
+
+// Configuration
+const FILE_WATCH_DEBOUNCE_MS = 150;      // Debounce file change events (Cursor writes in bursts)
+const FALLBACK_POLL_MIN_MS = 1000;       // Fallback poll interval right after activity
+const FALLBACK_POLL_MAX_MS = 5000;       // Fallback poll interval when idle
+const WATCHDOG_INTERVAL_MS = 60000;      // Check watcher health every 60 seconds
+
+/** Called on each tick with what triggered it ('db:change', 'wal:change', 'poll', ...) */
+export type StorageChangeListener = (reason: string) => Promise<void>;
+
+interface WatcherState {
+  watcher: fs.FSWatcher | null;
+  lastEventTime: number;
+  isHealthy: boolean;
+}
+
+export class StorageWatcher {
+  private outputChannel: vscode.OutputChannel;
+  private listeners: StorageChangeListener[] = [];
+
+  // File watchers
+  private dbWatcher: WatcherState = { watcher: null, lastEventTime: 0, isHealthy: false };
+  private walWatcher: WatcherState = { watcher: null, lastEventTime: 0, isHealthy: false };
+
+  // Timers
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private fallbackTimer: NodeJS.Timeout | null = null;
+  private watchdogTimer: NodeJS.Timeout | null = null;
+  private activityListeners: vscode.Disposable[] = [];
+
+  // Database paths
+  private dbPath: string | null = null;
+  private walPath: string | null = null;
+
+  // Adaptive fallback poll
+  private fallbackDelayMs: number = FALLBACK_POLL_MIN_MS;
+  private fastPollRequested: boolean = false;
+  /** Bumped on start/stop, so a poll still ticking from an earlier run doesn't re-arm */
+  private pollGeneration: number = 0;
+
+  private isRunning: boolean = false;
+  private isTicking: boolean = false;       // Ticks never overlap
+  private queuedReason: string | null = null; // Change seen during a tick - run another one after it
+
+  constructor(outputChannel: vscode.OutputChannel) {
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * Start watching. Safe to call again while running.
+   */
+  start(): void {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.outputChannel.appendLine('[Storage] Starting storage watcher...');
+    this.resolveDbPaths();
+
+    // Start file watchers (primary)
+    this.startFileWatchers();
+
+    // Start fallback polling
+    this.pollGeneration++;
+    this.fallbackDelayMs = FALLBACK_POLL_MIN_MS;
+    this.scheduleFallbackPoll();
+
+    // Start watchdog
+    this.watchdogTimer = setInterval(() => this.checkWatcherHealth(), WATCHDOG_INTERVAL_MS);
+
+    // The user coming back to Cursor or moving around in it (e.g. opening a new chat)
+    // is a good moment to poll quickly again
+    this.activityListeners = [
+      vscode.window.onDidChangeWindowState(state => {
+        if (state.focused) {
+          this.resetBackoff();
+        }
+      }),
+      vscode.window.onDidChangeActiveTextEditor(() => this.resetBackoff()),
+      vscode.window.tabGroups.onDidChangeTabs(() => this.resetBackoff()),
+      vscode.window.tabGroups.onDidChangeTabGroups(() => this.resetBackoff()),
+    ];
+
+    this.isRunning = true;
+    this.outputChannel.appendLine('[Storage] Watcher started');
+  }
+
+  /**
+   * Stop watching.
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.stopFileWatchers();
+    this.pollGeneration++;
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.fallbackTimer) {
+      clearTimeout(this.fallbackTimer);
+      this.fallbackTimer = null;
+    }
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+    this.activityListeners.forEach(listener => listener.dispose());
+    this.activityListeners = [];
+
+    this.isRunning = false;
+    this.outputChannel.appendLine('[Storage] Watcher stopped');
+  }
+
+  /**
+   * Run a listener on every tick. Returns a disposable that unsubscribes it.
+   */
+  subscribe(listener: StorageChangeListener): vscode.Disposable {
+    this.listeners.push(listener);
+    return new vscode.Disposable(() => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    });
+  }
+
+  /**
+   * Run a tick now (e.g. when a subscriber starts).
+   */
+  async trigger(reason: string): Promise<void> {
+    await this.runTick(reason);
+  }
+
+  /**
+   * Keep the fallback poll at its fastest interval after the current tick.
+   * Subscribers call this while they wait for something that may not touch
+   * the database files (e.g. a new chat that has no name yet).
+   */
+  requestFastPoll(): void {
+    this.fastPollRequested = true;
+  }
+
+  // ============ Ticks ============
+
+  private async runTick(reason: string): Promise<void> {
+    if (this.isTicking) {
+      this.queuedReason = reason;
+      return;
+    }
+    this.isTicking = true;
+
+    try {
+      for (const listener of [...this.listeners]) {
+        try {
+          await listener(reason);
+        } catch (error: any) {
+          this.outputChannel.appendLine(`[Storage] Listener failed (${reason}): ${error.message}`);
+        }
+      }
+    } finally {
+      this.isTicking = false;
+    }
+
+    if (this.queuedReason) {
+      const queued = this.queuedReason;
+      this.queuedReason = null;
+      await this.runTick(queued);
+    }
+  }
+
+  // ============ File Watching (Primary) ============
+
+  private resolveDbPaths(): void {
+    const dbPath = getWorkspaceDbPath();
+    if (!dbPath) {
+      this.outputChannel.appendLine('[Storage] Could not find Cursor workspace storage path');
+      // Fallback polling still runs - the watchdog retries later
+      return;
+    }
+    this.dbPath = dbPath;
+    this.walPath = `${dbPath}-wal`;
+    this.outputChannel.appendLine(`[Storage] Database path: ${this.dbPath}`);
+  }
+
+  private startFileWatchers(): void {
+    if (!this.dbPath) {
+      this.outputChannel.appendLine('[Storage] No database path, skipping file watchers');
+      return;
+    }
+
+    // Watch main database file
+    if (!this.dbWatcher.watcher && fs.existsSync(this.dbPath)) {
+      this.watchFile(this.dbPath, this.dbWatcher, 'db');
+    }
+
+    // Watch WAL file (may not exist yet)
+    if (!this.walWatcher.watcher && this.walPath && fs.existsSync(this.walPath)) {
+      this.watchFile(this.walPath, this.walWatcher, 'wal');
+    }
+  }
+
+  private watchFile(filePath: string, state: WatcherState, label: string): void {
+    try {
+      state.watcher = fs.watch(filePath, (eventType) => {
+        state.lastEventTime = Date.now();
+        state.isHealthy = true;
+        this.onFileChanged(`${label}:${eventType}`);
+      });
+      state.watcher.on('error', (error) => {
+        this.outputChannel.appendLine(`[Storage] ${label} watcher error: ${error.message}`);
+        state.watcher?.close();
+        state.watcher = null;
+        state.isHealthy = false;
+      });
+      state.isHealthy = true;
+      this.outputChannel.appendLine(`[Storage] Watching ${filePath}`);
+    } catch (error: any) {
+      this.outputChannel.appendLine(`[Storage] Failed to watch ${filePath}: ${error.message}`);
+    }
+  }
+
+  private stopFileWatchers(): void {
+    for (const state of [this.dbWatcher, this.walWatcher]) {
+      if (state.watcher) {
+        state.watcher.close();
+        state.watcher = null;
+        state.isHealthy = false;
+      }
+    }
+  }
+
+  /**
+   * Called when a file change is detected (debounced).
+   */
+  private onFileChanged(source: string): void {
+    this.resetBackoff();
+
+    // Debounce rapid file changes
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.runTick(source);
+    }, FILE_WATCH_DEBOUNCE_MS);
+  }
+
+  // ============ Fallback Polling ============
+
+  private scheduleFallbackPoll(): void {
+    const generation = this.pollGeneration;
+    this.fallbackTimer = setTimeout(async () => {
+      this.fallbackTimer = null;
+      await this.runTick('poll');
+
+      // Stopped (and maybe restarted, with its own poll) during the tick
+      if (generation !== this.pollGeneration || !this.isRunning) {
+        return;
+      }
+
+      // Back off while nothing is happening, unless a subscriber is waiting for
+      // something or there was activity during the tick
+      this.fallbackDelayMs = this.fastPollRequested
+        ? FALLBACK_POLL_MIN_MS
+        : Math.min(this.fallbackDelayMs * 2, FALLBACK_POLL_MAX_MS);
+      this.fastPollRequested = false;
+
+      this.scheduleFallbackPoll();
+    }, this.fallbackDelayMs);
+  }
+
+  /**
+   * Activity seen: poll at the fastest interval again.
+   */
+  private resetBackoff(): void {
+    // A poll that's ticking right now applies this after its tick, instead of backing off
+    this.fastPollRequested = true;
+
+    if (this.fallbackDelayMs === FALLBACK_POLL_MIN_MS) {
+      return;
+    }
+    this.fallbackDelayMs = FALLBACK_POLL_MIN_MS;
+
+    // Don't sit out the rest of a long idle wait (a running poll reschedules itself)
+    if (this.fallbackTimer) {
+      clearTimeout(this.fallbackTimer);
+      this.scheduleFallbackPoll();
+    }
+  }
+
+  // ============ Watchdog ============
+
+  private checkWatcherHealth(): void {
+    // Storage may not have existed at start (e.g. brand new workspace)
+    if (!this.dbPath) {
+      this.resolveDbPaths();
+    }
+
+    if ((!this.dbWatcher.watcher || !this.walWatcher.watcher) && this.dbPath) {
+      const hadDbWatcher = !!this.dbWatcher.watcher;
+      this.startFileWatchers();
+      if (!hadDbWatcher && this.dbWatcher.watcher) {
+        this.outputChannel.appendLine('[Storage] Watchdog: Restarted file watchers');
+        vscode.commands.executeCommand(Commands.ADD_LOG, 'Watchdog restarted file watchers');
+      }
+    }
+
+    // Log watcher status
+    const dbStatus = this.dbWatcher.watcher ? 'active' : 'inactive';
+    const walStatus = this.walWatcher.watcher ? 'active' : 'inactive';
+    this.outputChannel.appendLine(`[Storage] Watchdog: db=${dbStatus}, wal=${walStatus}, fallback poll ${this.fallbackDelayMs / 1000}s`);
+  }
+}
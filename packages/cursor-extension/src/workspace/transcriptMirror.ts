@@ -0,0 +1,243 @@
+/**
+ * Transcript Mirror
+ *
+ * Posts agent responses to the chat's Discord thread by reading the conversation
+ * from Cursor's storage, so a response still reaches Discord when the agent
+ * forgets post_to_thread, summarizes, or loses its thread ID.
+ *
+ * Runs on every StorageWatcher tick. A turn is mirrored once it settles: the agent
+ * stopped generating and no new messages arrived for TURN_SETTLE_MS.
+ * Deduplication against MCP posts:
+ * - missed: skip the turn if the agent posted anything to the thread during it
+ * - all: post every turn, minus text the agent already posted
+ */
+
+import * as vscode from 'vscode';
+import { DiscordClientManager } from './discordClient';
+import { StorageWatcher } from './storageWatcher';
+import { getActiveChatsRankedByRecency, getChatTranscript, getLastUserBubbleId, getLatestBubbleId, TranscriptMessage } from './cursorStorage';
+import { Commands, GetConfigResult } from '../shared/commands';
+import { ChatMapping, TranscriptMirrorMode } from '../shared/types';
+
+// Quiet period after the last new message before mirroring
+const TURN_SETTLE_MS = 10000;
+
+// Shown above mirrored responses so they can be told apart from agent posts
+const MIRROR_HEADER = '-# 🪞 Mirrored from the Cursor chat';
+
+// Last mirrored (or skipped) bubble per chat, so reloads don't repost old responses
+const CURSORS_STATE_KEY = 'discordBridge.transcriptCursors';
+
+/** New messages of a chat that haven't settled yet */
+interface PendingTurn {
+  /** Newest bubble + total text length: changes when bubbles are added or their text grows */
+  signature: string;
+  lastChangeAt: number;
+}
+
+export class TranscriptMirror {
+  private context: vscode.ExtensionContext;
+  private discordClient: DiscordClientManager;
+  private storageWatcher: StorageWatcher;
+  private outputChannel: vscode.OutputChannel;
+
+  /** chatId -> last processed bubbleId */
+  private cursors: Map<string, string> = new Map();
+  /** chatId -> when its cursor last advanced (start of the current turn for deduplication) */
+  private checkpoints: Map<string, number> = new Map();
+  /** chatId -> lastUpdatedAt from the composer list, to skip chats that didn't change */
+  private lastUpdatedAt: Map<string, number> = new Map();
+  private pendingTurns: Map<string, PendingTurn> = new Map();
+
+  private subscription: vscode.Disposable | null = null; // StorageWatcher subscription while running
+  private startedAt: number = 0;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    discordClient: DiscordClientManager,
+    storageWatcher: StorageWatcher,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this.context = context;
+    this.discordClient = discordClient;
+    this.storageWatcher = storageWatcher;
+    this.outputChannel = outputChannel;
+    this.cursors = new Map(this.context.workspaceState.get<[string, string][]>(CURSORS_STATE_KEY, []));
+  }
+
+  /**
+   * Start mirroring.
+   */
+  start(): void {
+    if (this.subscription) {
+      this.outputChannel.appendLine('[Mirror] Already running');
+      return;
+    }
+
+    this.startedAt = Date.now();
+    this.subscription = this.storageWatcher.subscribe(() => this.check());
+    this.outputChannel.appendLine(`[Mirror] Started (${this.cursors.size} chats tracked)`);
+  }
+
+  /**
+   * Stop mirroring. Unsettled turns are picked up again on the next start.
+   */
+  stop(): void {
+    if (!this.subscription) {
+      return;
+    }
+    this.subscription.dispose();
+    this.subscription = null;
+    this.pendingTurns.clear();
+    this.outputChannel.appendLine('[Mirror] Stopped');
+  }
+
+  isRunning(): boolean {
+    return this.subscription !== null;
+  }
+
+  private async check(): Promise<void> {
+    if (!this.discordClient.isReady()) {
+      return;
+    }
+
+    try {
+      const config = await vscode.commands.executeCommand<GetConfigResult>(Commands.GET_CONFIG);
+      const mode: TranscriptMirrorMode = config?.transcriptMirrorMode || 'missed';
+      if (mode === 'off') {
+        this.pendingTurns.clear();
+        return;
+      }
+
+      const mappings = this.discordClient.getChatMappings();
+      const chats = await getActiveChatsRankedByRecency();
+
+      for (const chat of chats) {
+        const mapping = mappings.get(chat.chatId);
+        if (!mapping) {
+          continue;
+        }
+
+        // Only read the transcript when the chat changed or a turn is still settling
+        const updatedAt = chat.lastUpdatedAt ?? 0;
+        const changed = this.lastUpdatedAt.get(chat.chatId) !== updatedAt;
+        this.lastUpdatedAt.set(chat.chatId, updatedAt);
+        if (!changed && !this.pendingTurns.has(chat.chatId)) {
+          continue;
+        }
+
+        await this.checkChat(chat.chatId, mapping, mode);
+      }
+    } catch (error: any) {
+      this.outputChannel.appendLine(`[Mirror] Check failed: ${error.message}`);
+    }
+
+    // Streaming responses don't always touch the workspace database - keep polling until turns settle
+    if (this.pendingTurns.size > 0) {
+      this.storageWatcher.requestFastPoll();
+    }
+  }
+
+  private async checkChat(chatId: string, mapping: ChatMapping, mode: TranscriptMirrorMode): Promise<void> {
+    const threadId = mapping.threadId;
+    let cursor = this.cursors.get(chatId);
+
+    // First time we see this chat. A thread created while mirroring starts at the chat's
+    // last user message, so the response to the prompt that created it is mirrored too.
+    // Older threads start from the end instead of posting their history.
+    if (!cursor) {
+      const createdAt = new Date(mapping.createdAt).getTime();
+      const isNew = createdAt >= this.startedAt;
+      cursor = isNew
+        ? await getLastUserBubbleId(chatId, this.outputChannel)
+        : await getLatestBubbleId(chatId, this.outputChannel);
+      if (!cursor) {
+        return;
+      }
+      this.advanceCursor(chatId, cursor, isNew ? createdAt : Date.now());
+      if (!isNew) {
+        return;
+      }
+    }
+
+    const transcript = await getChatTranscript(chatId, cursor, this.outputChannel);
+    if (!transcript?.lastBubbleId || transcript.lastBubbleId === cursor) {
+      this.pendingTurns.delete(chatId);
+      return;
+    }
+
+    // Cursor no longer in the conversation (reverted to an earlier message) - start over from the end
+    if (transcript.rewound) {
+      this.pendingTurns.delete(chatId);
+      this.advanceCursor(chatId, transcript.lastBubbleId);
+      return;
+    }
+
+    const now = Date.now();
+    const signature = `${transcript.lastBubbleId}:${transcript.messages.reduce((sum, m) => sum + m.text.length, 0)}`;
+    const pending = this.pendingTurns.get(chatId);
+    if (!pending || pending.signature !== signature) {
+      this.pendingTurns.set(chatId, { signature, lastChangeAt: now });
+      return;
+    }
+
+    if (transcript.isGenerating || now - pending.lastChangeAt < TURN_SETTLE_MS) {
+      return;
+    }
+
+    this.pendingTurns.delete(chatId);
+    await this.mirrorTurn(chatId, threadId, transcript.messages, mode);
+    this.advanceCursor(chatId, transcript.lastBubbleId);
+  }
+
+  private async mirrorTurn(chatId: string, threadId: string, messages: TranscriptMessage[], mode: TranscriptMirrorMode): Promise<void> {
+    let responses = messages
+      .filter(m => m.role === 'assistant' && m.text.length > 0)
+      .map(m => m.text);
+    if (responses.length === 0) {
+      return;
+    }
+
+    const agentPosts = this.discordClient.getAgentPostsSince(threadId, this.checkpoints.get(chatId) ?? this.startedAt);
+    if (mode === 'missed' && agentPosts.length > 0) {
+      this.outputChannel.appendLine(`[Mirror] Agent posted to thread ${threadId} itself, skipping turn`);
+      return;
+    }
+
+    // Drop responses the agent already posted (whitespace differences aside)
+    const posted = agentPosts.map(normalize);
+    responses = responses.filter(text => !posted.some(post => post.includes(normalize(text))));
+    if (responses.length === 0) {
+      return;
+    }
+
+    const result = await this.discordClient.postToThread({
+      threadId,
+      message: `${MIRROR_HEADER}\n${responses.join('\n\n')}`,
+    });
+    if (result.success) {
+      this.outputChannel.appendLine(`[Mirror] Posted ${responses.length} response(s) from chat ${chatId.substring(0, 8)}... to thread ${threadId}`);
+      vscode.commands.executeCommand(Commands.ADD_LOG, 'Mirrored agent response to Discord');
+    } else {
+      this.outputChannel.appendLine(`[Mirror] Failed to post to thread ${threadId}: ${result.error}`);
+    }
+  }
+
+  private advanceCursor(chatId: string, bubbleId: string, checkpoint: number = Date.now()): void {
+    this.cursors.set(chatId, bubbleId);
+    this.checkpoints.set(chatId, checkpoint);
+
+    // Forget chats that no longer have a thread
+    const mappings = this.discordClient.getChatMappings();
+    for (const id of this.cursors.keys()) {
+      if (!mappings.has(id)) {
+        this.cursors.delete(id);
+      }
+    }
+    this.context.workspaceState.update(CURSORS_STATE_KEY, [...this.cursors.entries()]);
+  }
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -6,9 +6,10 @@ import { StatusIndicator, Callout, Button, Tabs } from './components/shared';
 import ConnectionTab from './components/ConnectionTab';
 import NotificationsTab from './components/NotificationsTab';
 import BehaviorTab from './components/BehaviorTab';
+import SecurityTab from './components/SecurityTab';
 import LogsTab from './components/LogsTab';
 
-type TabId = 'connection' | 'notifications' | 'behavior' | 'logs';
+type TabId = 'connection' | 'notifications' | 'behavior' | 'security' | 'logs';
 
 const defaultState: WebviewState = {
   hasToken: false,
@@ -25,16 +26,34 @@ const defaultState: WebviewState = {
   inviteUrl: null,
   logs: [],
   threadInviteUserIds: [],
+  questionEscalationUserIds: [],
   threadCreationNotify: 'silent',
   messagePingMode: 'never',
   implicitArchiveCount: 10,
   implicitArchiveHours: 48,
+  longResponseMode: 'split',
+  longResponseThreshold: 4000,
+  longResponseSummaryLines: 10,
+  transcriptMirrorMode: 'missed',
+  accessPolicy: { enabled: false, rules: {} },
+  fileSharingPolicy: {
+    allowedRoots: [],
+    deniedPatterns: [],
+    maxFileSizeMb: 10,
+    confirmOutsideRoots: false,
+  },
+  redaction: {
+    enabled: true,
+    detectHighEntropy: true,
+    customPatterns: [],
+  },
 };
 
 const MAIN_TABS = [
   { id: 'connection', label: 'Connection' },
   { id: 'notifications', label: 'Notifications' },
   { id: 'behavior', label: 'Behavior' },
+  { id: 'security', label: 'Security' },
   { id: 'logs', label: 'Logs' },
 ];
 
@@ -93,7 +112,7 @@ export default function App() {
 
   const tabs = MAIN_TABS.map(tab => ({
     ...tab,
-    disabled: (tab.id === 'notifications' || tab.id === 'behavior') && !guildId,
+    disabled: (tab.id === 'notifications' || tab.id === 'behavior' || tab.id === 'security') && !guildId,
   }));
 
   return (
@@ -137,6 +156,7 @@ export default function App() {
         {activeTab === 'connection' && <ConnectionTab state={state} />}
         {activeTab === 'notifications' && <NotificationsTab state={state} />}
         {activeTab === 'behavior' && <BehaviorTab state={state} />}
+        {activeTab === 'security' && <SecurityTab state={state} />}
         {activeTab === 'logs' && <LogsTab logs={state.logs} />}
       </div>
     </div>
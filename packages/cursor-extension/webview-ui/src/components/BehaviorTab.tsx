@@ -1,15 +1,23 @@
 import React, { useCallback } from 'react';
-import { WebviewState } from '../types';
+import { WebviewState, LongResponseMode, TranscriptMirrorMode } from '../types';
 import { postMessage } from '../vscode';
 import styles from './BehaviorTab.module.css';
-import { Section, HelpText, Callout } from './shared';
+import { Section, HelpText, Callout, NumberInput } from './shared';
 
 interface Props {
   state: WebviewState;
 }
 
 export default function BehaviorTab({ state }: Props) {
-  const { guildId, implicitArchiveCount, implicitArchiveHours } = state;
+  const {
+    guildId,
+    implicitArchiveCount,
+    implicitArchiveHours,
+    longResponseMode,
+    longResponseThreshold,
+    longResponseSummaryLines,
+    transcriptMirrorMode,
+  } = state;
 
   const handleSetImplicitArchiveCount = useCallback((count: number) => {
     postMessage({ type: 'setImplicitArchiveCount', count });
@@ -19,6 +27,22 @@ export default function BehaviorTab({ state }: Props) {
     postMessage({ type: 'setImplicitArchiveHours', hours });
   }, []);
 
+  const handleSetLongResponseMode = useCallback((mode: LongResponseMode) => {
+    postMessage({ type: 'setLongResponseMode', mode });
+  }, []);
+
+  const handleSetLongResponseThreshold = useCallback((threshold: number) => {
+    postMessage({ type: 'setLongResponseThreshold', threshold });
+  }, []);
+
+  const handleSetLongResponseSummaryLines = useCallback((lines: number) => {
+    postMessage({ type: 'setLongResponseSummaryLines', lines });
+  }, []);
+
+  const handleSetTranscriptMirrorMode = useCallback((mode: TranscriptMirrorMode) => {
+    postMessage({ type: 'setTranscriptMirrorMode', mode });
+  }, []);
+
   if (!guildId) {
     return (
       <Callout variant="warning">
@@ -63,6 +87,75 @@ export default function BehaviorTab({ state }: Props) {
           </HelpText>
         </div>
       </Section>
+
+      <Section 
+        title="Long Responses"
+        description="How to post AI responses that are too long to read comfortably as a series of messages."
+      >
+        <div className={styles.settingRow}>
+          <label className={styles.settingLabel}>Long responses</label>
+          <select 
+            value={longResponseMode} 
+            onChange={(e) => handleSetLongResponseMode(e.target.value as LongResponseMode)}
+          >
+            <option value="split">Split into multiple messages</option>
+            <option value="attachment">Post a summary and attach a .md file</option>
+          </select>
+          <HelpText>
+            <strong>Split:</strong> Post the full response as (1/n), (2/n), ... messages.<br />
+            <strong>Attachment:</strong> Post the first few lines and attach the full response as a markdown file (one notification).
+          </HelpText>
+        </div>
+
+        <div className={styles.settingRow}>
+          <label className={styles.settingLabel}>Threshold (characters)</label>
+          <NumberInput 
+            value={longResponseThreshold}
+            min={2000}
+            max={100000}
+            step={500}
+            onChange={handleSetLongResponseThreshold}
+          />
+          <HelpText>
+            Responses longer than this are posted as an attachment (when enabled above).
+          </HelpText>
+        </div>
+
+        <div className={styles.settingRow}>
+          <label className={styles.settingLabel}>Summary lines</label>
+          <NumberInput 
+            value={longResponseSummaryLines}
+            min={1}
+            max={50}
+            onChange={handleSetLongResponseSummaryLines}
+          />
+          <HelpText>
+            Number of lines from the start of the response shown above the attachment.
+          </HelpText>
+        </div>
+      </Section>
+
+      <Section 
+        title="Response Mirroring"
+        description="Post agent responses to the thread from the Cursor chat transcript, for when the agent forgets to call post_to_thread."
+      >
+        <div className={styles.settingRow}>
+          <label className={styles.settingLabel}>Mirror responses</label>
+          <select 
+            value={transcriptMirrorMode} 
+            onChange={(e) => handleSetTranscriptMirrorMode(e.target.value as TranscriptMirrorMode)}
+          >
+            <option value="off">Off (only what the agent posts)</option>
+            <option value="missed">Responses the agent didn't post</option>
+            <option value="all">Every response</option>
+          </select>
+          <HelpText>
+            <strong>Missed:</strong> After each agent turn, post the response if the agent didn't post anything to the thread itself.<br />
+            <strong>Every response:</strong> Post every response, skipping text the agent already posted.<br />
+            Reads Cursor's internal chat storage, so it only works when Cursor runs on the same machine as the workspace.
+          </HelpText>
+        </div>
+      </Section>
     </>
   );
 }
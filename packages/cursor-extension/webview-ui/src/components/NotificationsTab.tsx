@@ -11,16 +11,22 @@ export default function NotificationsTab({ state }: Props) {
   const { 
     guildId, 
     threadInviteUserIds, 
+    questionEscalationUserIds,
     threadCreationNotify, 
     messagePingMode 
   } = state;
 
   const [userIdsInput, setUserIdsInput] = useState(threadInviteUserIds.join('\n'));
+  const [escalationIdsInput, setEscalationIdsInput] = useState(questionEscalationUserIds.join('\n'));
 
   const handleSaveInviteUsers = useCallback(() => {
     postMessage({ type: 'saveInviteUsers', userIds: userIdsInput });
   }, [userIdsInput]);
 
+  const handleSaveEscalationUsers = useCallback(() => {
+    postMessage({ type: 'saveEscalationUsers', userIds: escalationIdsInput });
+  }, [escalationIdsInput]);
+
   const handleSetThreadCreationNotify = useCallback((mode: ThreadCreationNotify) => {
     postMessage({ type: 'setThreadCreationNotify', mode });
   }, []);
@@ -97,6 +103,26 @@ export default function NotificationsTab({ state }: Props) {
           <strong>Always:</strong> Ping configured users on every AI response.
         </HelpText>
       </Section>
+
+      {/* Question Escalation */}
+      <Section 
+        title="Question Escalation"
+        description="Users who get a DM when an agent's question is still unanswered halfway to its deadline."
+      >
+        <textarea 
+          rows={2} 
+          placeholder="Enter user IDs (one per line or comma-separated)"
+          value={escalationIdsInput}
+          onChange={(e) => setEscalationIdsInput(e.target.value)}
+        />
+        <Button onClick={handleSaveEscalationUsers}>Save User IDs</Button>
+        <HelpText>
+          Only applies to questions the agent marks for escalation. Reminders in the thread ping the users above.
+          {questionEscalationUserIds.length > 0 && (
+            <><br />Currently configured: {questionEscalationUserIds.length} user(s)</>
+          )}
+        </HelpText>
+      </Section>
     </>
   );
 }
@@ -0,0 +1,281 @@
+import React, { useState, useCallback } from 'react';
+import { WebviewState, AccessRight, AccessRule } from '../types';
+import { postMessage } from '../vscode';
+import styles from './SecurityTab.module.css';
+import { Section, Button, HelpText, Callout } from './shared';
+
+interface Props {
+  state: WebviewState;
+}
+
+const ACCESS_RIGHTS: { right: AccessRight; label: string; help: string }[] = [
+  {
+    right: 'prompt',
+    label: 'Send prompts',
+    help: 'Messages in agent threads are sent to the Cursor chat.',
+  },
+  {
+    right: 'answer',
+    label: 'Answer questions',
+    help: 'Click ask_question buttons or reply to a pending question.',
+  },
+  {
+    right: 'createAgent',
+    label: 'Create agents',
+    help: 'Use /new-agent to start a new Cursor agent chat.',
+  },
+];
+
+interface AccessRuleEditorProps {
+  right: AccessRight;
+  label: string;
+  help: string;
+  rule: AccessRule | undefined;
+}
+
+function AccessRuleEditor({ right, label, help, rule }: AccessRuleEditorProps) {
+  const [userIdsInput, setUserIdsInput] = useState((rule?.userIds ?? []).join('\n'));
+  const [roleIdsInput, setRoleIdsInput] = useState((rule?.roleIds ?? []).join('\n'));
+
+  const handleSave = useCallback(() => {
+    postMessage({ type: 'saveAccessRule', right, userIds: userIdsInput, roleIds: roleIdsInput });
+  }, [right, userIdsInput, roleIdsInput]);
+
+  return (
+    <div className={styles.settingRow}>
+      <label className={styles.settingLabel}>{label}</label>
+      <textarea 
+        rows={2} 
+        placeholder="Allowed user IDs (one per line or comma-separated)"
+        value={userIdsInput}
+        onChange={(e) => setUserIdsInput(e.target.value)}
+      />
+      <textarea 
+        rows={2} 
+        placeholder="Allowed role IDs (one per line or comma-separated)"
+        value={roleIdsInput}
+        onChange={(e) => setRoleIdsInput(e.target.value)}
+      />
+      <Button onClick={handleSave}>Save</Button>
+      <HelpText>
+        {help}
+        {rule && (
+          <><br />Currently allowed: {rule.userIds.length} user(s), {rule.roleIds.length} role(s)</>
+        )}
+      </HelpText>
+    </div>
+  );
+}
+
+export default function SecurityTab({ state }: Props) {
+  const { guildId, accessPolicy, fileSharingPolicy, redaction } = state;
+
+  const [allowedRootsInput, setAllowedRootsInput] = useState(fileSharingPolicy.allowedRoots.join('\n'));
+  const [deniedPatternsInput, setDeniedPatternsInput] = useState(fileSharingPolicy.deniedPatterns.join('\n'));
+  const [redactionPatternsInput, setRedactionPatternsInput] = useState(redaction.customPatterns.join('\n'));
+
+  const handleSetEnabled = useCallback((enabled: boolean) => {
+    postMessage({ type: 'setAccessControlEnabled', enabled });
+  }, []);
+
+  const handleSaveAllowedRoots = useCallback(() => {
+    postMessage({ type: 'saveFileSharingAllowedRoots', roots: allowedRootsInput });
+  }, [allowedRootsInput]);
+
+  const handleSaveDeniedPatterns = useCallback(() => {
+    postMessage({ type: 'saveFileSharingDeniedPatterns', patterns: deniedPatternsInput });
+  }, [deniedPatternsInput]);
+
+  const handleSetMaxSize = useCallback((sizeMb: number) => {
+    postMessage({ type: 'setFileSharingMaxSizeMb', sizeMb });
+  }, []);
+
+  const handleSetConfirmOutsideRoots = useCallback((enabled: boolean) => {
+    postMessage({ type: 'setFileSharingConfirmOutsideRoots', enabled });
+  }, []);
+
+  const handleSetRedactionEnabled = useCallback((enabled: boolean) => {
+    postMessage({ type: 'setRedactionEnabled', enabled });
+  }, []);
+
+  const handleSetHighEntropy = useCallback((enabled: boolean) => {
+    postMessage({ type: 'setRedactionHighEntropy', enabled });
+  }, []);
+
+  const handleSaveRedactionPatterns = useCallback(() => {
+    postMessage({ type: 'saveRedactionPatterns', patterns: redactionPatternsInput });
+  }, [redactionPatternsInput]);
+
+  if (!guildId) {
+    return (
+      <Callout variant="warning">
+        <strong>Setup Required</strong><br />
+        Complete connection setup first (select a server and channel).
+      </Callout>
+    );
+  }
+
+  return (
+    <>
+      <Section 
+        title="Access Control"
+        description="Messages from Discord are typed into Cursor on this machine. Restrict who can drive your agents."
+      >
+        <select 
+          value={accessPolicy.enabled ? 'enabled' : 'disabled'} 
+          onChange={(e) => handleSetEnabled(e.target.value === 'enabled')}
+        >
+          <option value="disabled">Anyone who can post in the channel</option>
+          <option value="enabled">Only the users and roles listed below</option>
+        </select>
+        <HelpText>
+          Unauthorized messages get a 🚫 reaction; unauthorized buttons and slash commands get a private denial.
+        </HelpText>
+        {!accessPolicy.enabled && (
+          <Callout variant="warning">
+            Anyone who can post in your project channel can send prompts to your agents.
+          </Callout>
+        )}
+      </Section>
+
+      {accessPolicy.enabled && (
+        <Section 
+          title="Permissions"
+          description="A user needs to be listed, or have one of the listed roles. Rights with nobody listed are denied to everyone."
+        >
+          {ACCESS_RIGHTS.map(({ right, label, help }) => (
+            <AccessRuleEditor
+              key={right}
+              right={right}
+              label={label}
+              help={help}
+              rule={accessPolicy.rules[right]}
+            />
+          ))}
+          <HelpText>
+            To get IDs: Enable Developer Mode in Discord settings → right-click a user or role → "Copy ID"
+          </HelpText>
+        </Section>
+      )}
+
+      <Section 
+        title="Approvers"
+        description="Who can approve or deny destructive agent actions (request_approval: migrations, force pushes, deleting files)."
+      >
+        <AccessRuleEditor
+          right="approve"
+          label="Approve actions"
+          help="Required even when access control is off. With nobody listed, agents can't get approval and must not go ahead. Decisions are logged to .cursor/discord-approvals.jsonl."
+          rule={accessPolicy.rules.approve}
+        />
+      </Section>
+
+      <Section 
+        title="File Sharing"
+        description="Limits on which files agents can upload to Discord with send_file_to_thread."
+      >
+        <div className={styles.settingRow}>
+          <label className={styles.settingLabel}>Additional allowed folders</label>
+          <textarea 
+            rows={2} 
+            placeholder="Absolute folder paths (one per line)"
+            value={allowedRootsInput}
+            onChange={(e) => setAllowedRootsInput(e.target.value)}
+          />
+          <Button onClick={handleSaveAllowedRoots}>Save Folders</Button>
+          <HelpText>
+            Workspace folders and the system temp directory are always allowed.
+          </HelpText>
+        </div>
+
+        <div className={styles.settingRow}>
+          <label className={styles.settingLabel}>Files outside allowed folders</label>
+          <select 
+            value={fileSharingPolicy.confirmOutsideRoots ? 'ask' : 'reject'} 
+            onChange={(e) => handleSetConfirmOutsideRoots(e.target.value === 'ask')}
+          >
+            <option value="reject">Reject</option>
+            <option value="ask">Ask me in Cursor</option>
+          </select>
+        </div>
+
+        <div className={styles.settingRow}>
+          <label className={styles.settingLabel}>Blocked file patterns</label>
+          <textarea 
+            rows={6} 
+            placeholder="Glob patterns (one per line)"
+            value={deniedPatternsInput}
+            onChange={(e) => setDeniedPatternsInput(e.target.value)}
+          />
+          <Button onClick={handleSaveDeniedPatterns}>Save Patterns</Button>
+          <HelpText>
+            Patterns without a slash match the file name (e.g. <code>*.pem</code>), patterns with a slash match the full path (e.g. <code>**/.ssh/**</code>).
+          </HelpText>
+        </div>
+
+        <div className={styles.settingRow}>
+          <label className={styles.settingLabel}>Max file size (MB)</label>
+          <input 
+            type="number" 
+            value={fileSharingPolicy.maxFileSizeMb}
+            min={1}
+            max={500}
+            onChange={(e) => handleSetMaxSize(parseInt(e.target.value) || 10)}
+          />
+          <HelpText>
+            Discord allows 10 MB uploads on servers without boosts.
+          </HelpText>
+        </div>
+      </Section>
+
+      <Section 
+        title="Secret Redaction"
+        description="Masks credentials in everything posted to Discord: responses, prompts, questions and file descriptions."
+      >
+        <select 
+          value={redaction.enabled ? 'enabled' : 'disabled'} 
+          onChange={(e) => handleSetRedactionEnabled(e.target.value === 'enabled')}
+        >
+          <option value="enabled">Mask secrets</option>
+          <option value="disabled">Off (only the bot token is masked)</option>
+        </select>
+        <HelpText>
+          Built-in detectors: private keys, AWS keys, GitHub/Slack/Discord tokens, API keys, JWTs, connection string passwords and <code>*_TOKEN=</code>-style assignments.
+          Each redaction is written to the log.
+        </HelpText>
+
+        {redaction.enabled && (
+          <>
+            <div className={styles.settingRow}>
+              <label className={styles.settingLabel}>High-entropy strings</label>
+              <select 
+                value={redaction.detectHighEntropy ? 'on' : 'off'} 
+                onChange={(e) => handleSetHighEntropy(e.target.value === 'on')}
+              >
+                <option value="on">Mask random-looking strings</option>
+                <option value="off">Only known formats</option>
+              </select>
+              <HelpText>
+                Masks long mixed-case strings that look random. May occasionally hide hashes or IDs.
+              </HelpText>
+            </div>
+
+            <div className={styles.settingRow}>
+              <label className={styles.settingLabel}>Custom patterns</label>
+              <textarea 
+                rows={3} 
+                placeholder="Regular expressions (one per line)"
+                value={redactionPatternsInput}
+                onChange={(e) => setRedactionPatternsInput(e.target.value)}
+              />
+              <Button onClick={handleSaveRedactionPatterns}>Save Patterns</Button>
+              <HelpText>
+                Every match is replaced with <code>[REDACTED:custom_N]</code>, e.g. <code>internal-[a-z0-9]{'{'}16{'}'}</code>.
+              </HelpText>
+            </div>
+          </>
+        )}
+      </Section>
+    </>
+  );
+}
@@ -6,3 +6,4 @@ export { default as HelpText } from './HelpText';
 export { default as StatusIndicator } from './StatusIndicator';
 export { default as Tabs } from './Tabs';
 export { default as ChannelList } from './ChannelList';
+export { default as NumberInput } from './NumberInput';
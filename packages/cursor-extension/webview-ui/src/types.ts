@@ -21,6 +21,32 @@ export interface CategoryInfo {
 
 export type ThreadCreationNotify = 'silent' | 'ping';
 export type MessagePingMode = 'never' | 'discord_conversation' | 'always';
+export type LongResponseMode = 'split' | 'attachment';
+export type TranscriptMirrorMode = 'off' | 'missed' | 'all';
+export type AccessRight = 'prompt' | 'answer' | 'createAgent' | 'approve';
+
+export interface AccessRule {
+  userIds: string[];
+  roleIds: string[];
+}
+
+export interface AccessPolicy {
+  enabled: boolean;
+  rules: Partial<Record<AccessRight, AccessRule>>;
+}
+
+export interface FileSharingPolicy {
+  allowedRoots: string[];
+  deniedPatterns: string[];
+  maxFileSizeMb: number;
+  confirmOutsideRoots: boolean;
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  detectHighEntropy: boolean;
+  customPatterns: string[];
+}
 
 /** State sent from extension to webview */
 export interface WebviewState {
@@ -38,10 +64,18 @@ export interface WebviewState {
   inviteUrl: string | null;
   logs: string[];
   threadInviteUserIds: string[];
+  questionEscalationUserIds: string[];
   threadCreationNotify: ThreadCreationNotify;
   messagePingMode: MessagePingMode;
   implicitArchiveCount: number;
   implicitArchiveHours: number;
+  longResponseMode: LongResponseMode;
+  longResponseThreshold: number;
+  longResponseSummaryLines: number;
+  transcriptMirrorMode: TranscriptMirrorMode;
+  accessPolicy: AccessPolicy;
+  fileSharingPolicy: FileSharingPolicy;
+  redaction: RedactionSettings;
 }
 
 /** Messages from webview to extension */
@@ -52,10 +86,24 @@ export type WebviewToExtensionMessage =
   | { type: 'createChannel'; channelName: string; categoryId?: string }
   | { type: 'selectChannel'; channelId: string; channelName: string }
   | { type: 'saveInviteUsers'; userIds: string }
+  | { type: 'saveEscalationUsers'; userIds: string }
   | { type: 'setThreadCreationNotify'; mode: ThreadCreationNotify }
   | { type: 'setMessagePingMode'; mode: MessagePingMode }
   | { type: 'setImplicitArchiveCount'; count: number }
   | { type: 'setImplicitArchiveHours'; hours: number }
+  | { type: 'setLongResponseMode'; mode: LongResponseMode }
+  | { type: 'setLongResponseThreshold'; threshold: number }
+  | { type: 'setLongResponseSummaryLines'; lines: number }
+  | { type: 'setTranscriptMirrorMode'; mode: TranscriptMirrorMode }
+  | { type: 'setAccessControlEnabled'; enabled: boolean }
+  | { type: 'saveAccessRule'; right: AccessRight; userIds: string; roleIds: string }
+  | { type: 'saveFileSharingAllowedRoots'; roots: string }
+  | { type: 'saveFileSharingDeniedPatterns'; patterns: string }
+  | { type: 'setFileSharingMaxSizeMb'; sizeMb: number }
+  | { type: 'setFileSharingConfirmOutsideRoots'; enabled: boolean }
+  | { type: 'setRedactionEnabled'; enabled: boolean }
+  | { type: 'setRedactionHighEntropy'; enabled: boolean }
+  | { type: 'saveRedactionPatterns'; patterns: string }
   | { type: 'reconnect' }
   | { type: 'clearLogs' }
   | { type: 'refresh' }